@@ -21,19 +21,14 @@ declare function search2(query: string, tags?: string[]): Result[];
 
 // Iteration 3:
 // * Now we've made the function asynchronous. We also provided a return type in the function head because the default return type for a fetch call is Promise<any>.
-async function search3(query: string, tags?: string[]): Promise<Result[]> {
-  // Build the query string
-  let queryString = `?query=${query}`;
-
-  // If we have tags, add them to the query string
-  if (tags && tags.length) {
-    queryString += `&tags=${tags.join(",")}`;
-  }
-
-  // Fetch the results and return them as JSON
-  return fetch(`https://example.com/api/search${queryString}`).then((res) =>
-    res.json()
-  );
+// * The URL and the fetch call now live in the search client (search-client.ts), so the backend can be swapped out
+// * The options are passed on as well, so a caller that aborts its signal also cancels the request itself
+async function search3(
+  query: string,
+  tags?: string[],
+  options?: SearchOptions
+): Promise<Result[]> {
+  return searchClient.search(query, tags, options);
 }
 
 // We could can also use function types within objects
@@ -48,15 +43,9 @@ type Query = {
 const myQuery: Query = {
   query: "Rock climbing",
   tags: ["outdoors", "fitness"],
+  // * buildQueryString (search-query.ts) encodes the values for us, so "C# & .NET" doesn't break the URL
   assemble(includeTags = true) {
-    let queryString = `?query=${this.query}`;
-
-    // If we have tags, add them to the query string
-    if (includeTags && this.tags && this.tags.length) {
-      queryString += `&tags=${this.tags.join(",")}`;
-    }
-
-    return queryString;
+    return buildQueryString(fromQuery(this, includeTags));
   },
 };
 
@@ -77,9 +66,16 @@ type Query2 = {
 
 // We can you use a callback function to achieve this.
 
+// The options are optional too, so a search function that ignores them still fits the type.
+// * Passing a signal lets the caller cancel a request it doesn't need anymore
+type SearchOptions = {
+  signal?: AbortSignal;
+};
+
 type searchFn = (
   query: string,
-  tags?: string[] | undefined
+  tags?: string[] | undefined,
+  options?: SearchOptions
 ) => Promise<Result[]>;
 
 // For this example we'll select the element the user inputs the query into, call the search function, and then render the results to the page.
@@ -101,27 +97,14 @@ displaySearch("search-input", "search-results", search3);
 
 // or create an anonymous function
 displaySearch("search-input", "search-results", async (query, tags) => {
-  // Build the query string
-  let queryString = `?query=${query}`;
-
-  // If we have tags, add them to the query string
-  if (tags && tags.length) {
-    queryString += `&tags=${tags.join(",")}`;
-  }
-
-  // Fetch the results and return them as JSON
-  return fetch(`https://example.com/api/search${queryString}`).then((res) =>
-    res.json()
-  );
+  return offlineSearchClient.search(query, tags);
 });
 
 // Notice how you can use the searchFn type to define the search function without needing to include tags in the function definition.
 
 // ! Also notice that I use the argument `term` instead of `query`. This is because the argument name doesn't matter. Only the type matters.
 const testSearch: searchFn = async (term) => {
-  return fetch(`https://example.com/api/search?query=${term}`).then((res) =>
-    res.json()
-  );
+  return searchClient.search(term);
 };
 
 // * Typescript uses something called substitutability
@@ -158,23 +141,17 @@ function search4(
   tags?: string[],
   callback?: (results: Result[]) => void
 ) {
-  // Build the query string
-  let queryString = `?query=${query}`;
-
-  // If we have tags, add them to the query string
-  if (tags && tags.length) {
-    queryString += `&tags=${tags.join(",")}`;
-  }
-
-  // Fetch the results and return them as JSON
-  fetch(`https://example.com/api/search${queryString}`)
-    .then((res) => res.json())
+  // Fetch the results through the search client
+  searchClient
+    .search(query, tags)
     .then((results) => {
       // If we have a callback, call it with the results
       if (callback) {
         callback(results);
       }
-    });
+    })
+    // * The client rejects when the search fails, without a catch that's an unhandled rejection
+    .catch((error) => console.warn(describeSearchError(toSearchError(error))));
 }
 
 // We can call this function with a callback that logs the results to the console.
@@ -206,17 +183,9 @@ function search5(
   tags?: string[],
   callback?: (results: Result[]) => void
 ) {
-  // Build the query string
-  let queryString = `?query=${query}`;
-
-  // If we have tags, add them to the query string
-  if (tags && tags.length) {
-    queryString += `&tags=${tags.join(",")}`;
-  }
-
-  // Fetch the results and return them as JSON
-  fetch(`https://example.com/api/search${queryString}`)
-    .then((res) => res.json())
+  // Fetch the results through the search client
+  searchClient
+    .search(query, tags)
     .then((results) => {
       // If we have a callback, call it with the results
       if (callback) {
@@ -228,7 +197,8 @@ function search5(
         // @ts-expect-error
         preBoldMove.concat(boldMove);
       }
-    });
+    })
+    .catch((error) => console.warn(describeSearchError(toSearchError(error))));
 }
 
 // If you want to avoid having a return type come into play at all then you can use the type `undefined` instead of `void`. Alternatively you could do this
@@ -249,23 +219,69 @@ function search5(
 <div id="search-results"></div>
 ```;
 
-// Once we get a 'change' event fired off of the input we'll want to trigger our search function to be activated.
+// Once we get an 'input' event fired off of the input we'll want to trigger our search function to be activated.
+// * createLiveSearch (search-live.ts) waits for the user to stop typing, cancels stale requests and only hands us the latest results
 
+// * Pass a SuggestFn (search-facets.ts) to get tag and term suggestions under the input
 function displaySearch2(
   inputId: string,
   outputId: string,
-  search: searchFn
+  search: searchFn,
+  debounceMs = 250,
+  suggest?: SuggestFn
 ): void {
-  document.getElementById(inputId)?.addEventListener("change", function () {
-    this.parentElement?.classList.add("active");
+  const input = document.getElementById(inputId);
+  const output = document.getElementById(outputId);
+
+  if (suggest && input instanceof HTMLInputElement) {
+    attachSuggestions(input, suggest);
+  }
+
+  const liveSearch = createLiveSearch(search, {
+    debounceMs,
+    onStateChange(state) {
+      setLiveSearchState(input?.parentElement ?? null, state);
+    },
+    onResults(results, query) {
+      if (!output) {
+        return;
+      }
+
+      // An empty query isn't a search without results, there's just nothing to show yet
+      if (!query) {
+        output.replaceChildren();
+      } else {
+        renderResults(output, results);
+      }
+    },
+    // * Every search error is one of the SearchError kinds, so we can switch over them like neverError taught us
+    onError(error) {
+      const searchError = toSearchError(error);
+
+      switch (searchError.kind) {
+        case "aborted":
+          // A newer search replaced this one, there's nothing to show
+          return;
+        case "network":
+        case "http":
+        case "parse":
+        case "validation":
+        case "timeout":
+          if (output) {
+            renderSearchError(output, searchError);
+          }
+          return;
+        default:
+          throw neverError("Unknown search error", searchError);
+      }
+    },
+  });
 
+  input?.addEventListener("input", function () {
     // ! Notice how we need to check that the element IS an HTMLInputElement. That's because TypeScript will always
     // ! assume the lowest common denominator on types... in this case HTMLElement
     if (this instanceof HTMLInputElement) {
-      const query = this.value;
-
-      // TODO: The inner of this function will be covered later
-      search(query).then();
+      liveSearch.update(this.value);
     }
   });
 }
@@ -310,15 +326,15 @@ const resultItem = {
 
 // To do that we can create a `tag`. Below will be the function we'll use for the tag
 
+// ! There is always one more string than there are values, so the last iteration has no value to fetch
+// * renderHighlightHTML (search-highlight.ts) escapes the value and replaces every pair of markers, not just the first
 function highlight(strings: TemplateStringsArray, ...values: string[]) {
   let resultStr = "";
 
   strings.forEach((templ, i) => {
     // fetch the expression from the same position
     // or assign an empty string
-    let expr =
-      values[i].replace("@@starthl@@", "<em>").replace("@@endhl@@", "</em>") ??
-      "";
+    let expr = i < values.length ? renderHighlightHTML(values[i]).value : "";
 
     resultStr += templ + expr;
   });
@@ -327,10 +343,9 @@ function highlight(strings: TemplateStringsArray, ...values: string[]) {
 }
 
 // Now anywhere the highlight tags show up we can replace it :)
+// * renderResultsHTML (search-render.ts) escapes every value, closes the list and doesn't join the items with commas
 function createResultsTemplate(results: Result[]): string {
-  return `<ul>
-  ${results.map((result) => highlight`<li>${result.title}</li>`)}
-`;
+  return renderResultsHTML(results).toString();
 }
 
 // The ... syntax is called 'Rest parameters' it basically says that it could be an infinite amount of whatever is being called
@@ -361,44 +376,26 @@ async function sendMessage() {
 function overloadSearch(
   term: string,
   tags?: string[]
-): Promise<Result[] | undefined>;
+): Promise<Result[]>;
 
-// The below function is throwing a fit
-// @ts-ignore
 function overloadSearch(
   term: string,
   tags?: string[],
   callback?: (results: Result[]) => void
 ): void;
 
-function overloadSearch(term: string, p2?: unknown, p3?: string[]) {
-  // We only have a callback if p2 is of type function
-  const callback = typeof p2 === "function" ? p2 : undefined;
-
-  // We only have tags if p2 or p3 is defined and of type array
-  const tags =
-    typeof p2 !== "undefined" && Array.isArray(p2)
-      ? p2
-      : typeof p3 !== "undefined" && Array.isArray(p3)
-      ? p3
-      : undefined;
-
-  let queryString = `?query=${term}`;
-
-  if (tags && tags.length) {
-    // tags is defined and is an array
-    queryString += `&tags=${tags.join(",")}`;
-  }
-
-  const results = fetch("https://example.com/api/search${queryString}").then(
-    (res) => res.json()
-  );
-
+// * This used to need a @ts-ignore: the implementation's third parameter was typed as string[] while the second
+// * overload passes a callback there. The argument juggling now lives in unifiedSearch (search-unified.ts).
+function overloadSearch(
+  term: string,
+  tags?: string[],
+  callback?: (results: Result[]) => void
+) {
   if (callback) {
-    return void results.then((res) => callback(res));
-  } else {
-    return results;
+    return unifiedSearch(term, tags, callback);
   }
+
+  return unifiedSearch(term, tags);
 }
 
 // The above is a bit of a mess, but it's a good example of how to use function overloading. You need to take care when function overloading and don't do it too much.
@@ -412,41 +409,25 @@ type SearchOverloadFn = {
   (term: string, callback?: (results: Result[]) => void, tags?: string[]): void;
 };
 
-// The below has a weird type error that I don't feel like fixing right now
-// @ts-ignore
-const searchWithOverload: SearchOverloadFn = (
+// The weird type error: an arrow function only has one signature, so its return type is `Promise<Result[]> | void`
+// which is neither `Promise<Result[]>` nor `void`. Overloaded function declarations can have both, so we assign one of those.
+function searchWithOverloadImpl(
   term: string,
-  p2?: string[] | ((results: Result[]) => void),
-  p3?: string[]
-) => {
-  // We only have a callback if p2 is of type function
-  const callback = typeof p2 === "function" ? p2 : undefined;
-
-  // We only have tags if p2 or p3 is defined and of type array
-  const tags =
-    typeof p2 !== "undefined" && Array.isArray(p2)
-      ? p2
-      : typeof p3 !== "undefined" && Array.isArray(p3)
-      ? p3
-      : undefined;
-
-  let queryString = `?query=${term}`;
-
-  if (tags && tags.length) {
-    // tags is defined and is an array
-    queryString += `&tags=${tags.join(",")}`;
-  }
-
-  const results = fetch(`https://example.com/api/search${queryString}`).then(
-    (res) => res.json()
-  );
+  tags?: string[]
+): Promise<Result[]>;
+function searchWithOverloadImpl(
+  term: string,
+  callback?: (results: Result[]) => void,
+  tags?: string[]
+): void;
+function searchWithOverloadImpl(
+  term: string,
+  ...args: UnifiedSearchArgs
+): Promise<Result[]> | void {
+  return unifiedSearch(term, ...args);
+}
 
-  if (callback) {
-    return void results.then((res) => callback(res));
-  } else {
-    return results;
-  }
-};
+const searchWithOverload: SearchOverloadFn = searchWithOverloadImpl;
 
 /* -------------------------------------------------- */
 // Lesson 21: Generator Functions
@@ -478,16 +459,12 @@ type PollingResults = {
 };
 
 async function polling(term: string): Promise<PollingResults> {
-  return fetch(`https://example.com/api/polling?query=${term}`).then((res) =>
-    res.json()
-  );
+  return searchClient.polling(term);
 }
 
 function append(result: Result) {
-  const node = document.createElement("li");
-  node.innerHTML = `
-  <a href="${result.url}">${result.title}</a>
-  `;
+  // The item is escaped before it goes anywhere near the DOM
+  const node = toFragment(renderResultItem(result));
 
   document.querySelector("#results")?.appendChild(node);
 }
@@ -568,16 +545,16 @@ async function handleChange3(this: HTMLElement, ev: Event) {
 
 // We should make the results from our generator function a bit more specific
 
+// * createPoller (search-polling.ts) waits between requests, backs off, and gives up after a deadline or a number of batches
+// `yield*` hands every value we get through the `yield` door on to the poller
 async function* fetchResults2(
-  term: string
+  term: string,
+  options?: PollingOptions
 ): AsyncGenerator<Result[], void, boolean> {
-  let state;
-  let stop = false;
-
-  do {
-    state = await polling(term);
-    stop = yield state.results;
-  } while (!state.complete && stop === false);
+  yield* createPoller(
+    (signal) => searchClient.polling(term, { signal }),
+    options
+  );
 }
 
 // CHAPTER RECAP:
@@ -101,13 +101,14 @@ type TechEvent = Webinar | Conference | Meetup;
 
 // Say we're getting an event from an API - we don't know exactly what type of event it will be yet. We can use the TechEvent type and type narrowing to print out information about the event.
 
+// ? The prices are read and formatted by events-pricing.ts, so a "10" meetup isn't free and a conference isn't always $
 function printEvent(event: TechEvent) {
-  if (event.price) {
-    if (typeof event.price === "number") {
-      console.log(`The event will be $${event.price}`);
-    } else {
-      console.log("ayeee you event is free!");
-    }
+  const price = parsePrice(event.price);
+
+  if (price?.kind === "free") {
+    console.log("ayeee you event is free!");
+  } else if (price) {
+    console.log(`The event will be ${formatMoney(price)}`);
   }
 
   if (Array.isArray(event.talks)) {
@@ -240,7 +241,9 @@ function getEventTeaser(event: TechEventNew) {
     case "Webinar":
       return `${event.title} Webinar. ` + `Available online at ${event.url}`;
     case "Conference":
-      return `${event.title} Conference. ` + `Priced at ${event.price} USD`;
+      return (
+        `${event.title} Conference. ` + `Priced at ${formatEventPrice(event)}`
+      );
     case "Meetup":
       return `${event.title} Meetup. ` + `Hosted at ${event.location}`;
     // case "u" returns an error because it's not possible in event.kind
@@ -279,9 +282,7 @@ getEventTeaser(script19);
 // ! LESSON 25: Dynamic Unions
 
 function filterByEvent(list: TechEventNew[], kind: EventKind) {
-  return list.filter((event) => {
-    event.kind === kind;
-  });
+  return list.filter((event) => event.kind === kind);
 }
 
 declare const eventList: TechEventNew[];
@@ -302,7 +303,9 @@ type Hackathon = TechEventBaseNew & {
   kind: "Hackathon";
 };
 
-type TechEventNewer = ConferenceNew | WebinarNew | Hackathon | MeetupNew;
+// ? This used to be ConferenceNew | WebinarNew | Hackathon | MeetupNew. Now it's every type in the registry
+// (events-registry.ts), so the next new kind only has to be registered there.
+type TechEventNewer = EventKindRegistry[keyof EventKindRegistry];
 
 // ! Oh no! This doesn't work because there's a disconnect between EventKind and TechEvent
 // @ts-expect-error
@@ -312,10 +315,9 @@ filterByEvent(eventList, "Hackathon");
 // Instead of setting EventKind to a list of the string we use TechEvent["kind"] which will grab all the current possible kinds of events
 type EventKind2 = TechEventNewer["kind"];
 
+// ? events-query.ts has a query API that filters on more than the kind
 function filterByEvent2(list: TechEventNew[], kind: EventKind2) {
-  return list.filter((event) => {
-    event.kind === kind;
-  });
+  return queryEvents<TechEventNewer>(list).ofKind(kind).toArray();
 }
 
 // * Now it works!!
@@ -338,21 +340,17 @@ type GroupedEvents2 = {
   [kind in EventKind2]: TechEventNewer[];
 };
 
-function groupEvents(events: TechEventNewer[]): GroupedEvents2 {
-  const grouped = {
-    Conference: <ConferenceNew[]>[],
-    Hackathon: <Hackathon[]>[],
-    Meetup: <MeetupNew[]>[],
-    Webinar: <WebinarNew[]>[],
-  };
-
-  events.forEach((event) => {
-    // Couldn't find a reason this gives an error, but it does....
-    // @ts-ignore
-    grouped[event.kind].push(event);
-  });
-
-  return grouped;
+// ? This used to push every event into grouped[event.kind] behind a @ts-ignore: that's a union of four array types, and
+// TypeScript won't push a TechEventNewer into any of them. groupBy in events-group.ts derives the precise buckets from
+// the union instead.
+function groupEvents(events: TechEventNewer[]): EventsByKind {
+  // Every registered kind gets a bucket, even if there are no events of that kind
+  const empty = registeredEventKinds.reduce(
+    (buckets, kind) => ({ ...buckets, [kind]: [] }),
+    {} as EventsByKind
+  );
+
+  return { ...empty, ...groupBy(events, "kind") };
 }
 // !-----------------------------------!
 // ! LESSON 26: Object Types and Type predicates
@@ -438,7 +436,9 @@ function getEventTeaser2(event: TechEventNew) {
     case "Webinar":
       return `${event.title} Webinar. ` + `Available online at ${event.url}`;
     case "Conference":
-      return `${event.title} Conference. ` + `Priced at ${event.price} USD`;
+      return (
+        `${event.title} Conference. ` + `Priced at ${formatEventPrice(event)}`
+      );
     case "Meetup":
       return `${event.title} Meetup. ` + `Hosted at ${event.location}`;
     // case "u" returns an error because it's not possible in event.kind
@@ -458,25 +458,12 @@ function neverError(message: string, token: never) {
   return new Error(`${message}. ${token} should not exist`);
 }
 
-// * Now let's replace the default case in the switch statement with this
+// * Now let's replace the default case in the switch statement with neverError
 // If we don't include an event Typescript will be mad at us which is good
+// ? For TechEventNewer that check lives in the registry now (events-registry.ts): `eventKinds` doesn't compile until
+// ? every kind has a teaser, and this function doesn't need its own copy of them.
 function getEventTeaser3(event: TechEventNewer) {
-  switch (event.kind) {
-    case "Webinar":
-      return `${event.title} Webinar. ` + `Available online at ${event.url}`;
-    case "Conference":
-      return `${event.title} Conference. ` + `Priced at ${event.price} USD`;
-    case "Meetup":
-      return `${event.title} Meetup. ` + `Hosted at ${event.location}`;
-    case "Hackathon":
-      return `${event.title} Hackathon. ` + `Hosted at ${event.location}`;
-    // case "u" returns an error because it's not possible in event.kind
-    // @ts-expect-error
-    case "u":
-      return ``;
-    default:
-      throw neverError("Whoops - bad move", event);
-  }
+  return eventTeaser(event);
 }
 
 // !-----------------------------------!
@@ -497,24 +484,19 @@ age = age + 1;
 // This can get worse though
 // Take for example trying to add some HTML to the DOM
 
+// ? These used to put the title and description into the HTML unescaped. events-render.ts escapes them and has a
+// template for every kind of event.
 function getTeaserHTML(event: TechEventNewer) {
-  return `
- <h2>${event.title}</h2>
- <p>${event.description}</p> 
-  `;
+  return renderEventHTML(event).toString();
 }
 
 function getTeaserListElement(event: TechEventNewer) {
-  const content = getTeaserHTML(event);
-  const li = document.createElement("li");
-  li.classList.add("event-teaser");
-  li.innerHTML = content;
-  return li;
+  return renderEventElement(event);
 }
 
 function appendToList(event: TechEventNewer) {
   const list = document.querySelector("#event-list");
-  const element = getTeaserListElement(event);
+  const element = renderEventElement(event);
 
   // This will throw an error because list could be null
   // we can fix this with optional chaining or the ? operator
@@ -0,0 +1,357 @@
+// ! Conference agendas
+
+// A Talk has a title, an abstract and a speaker, but no time and no room, so a conference has no schedule. An agenda
+// puts the talks of a Conference or Meetup into rooms at set times, with breaks in between. It can tell when a speaker
+// has to be in two places at once or two things happen in the same room, and it prints the day as text or HTML.
+
+// The kinds of event with a list of talks, i.e. ConferenceNew | MeetupNew
+type AgendaEvent = Extract<TechEventNewer, { talks: Talk[] }>;
+
+type AgendaRoom = {
+  name: string;
+  // i.e. "Frontend" or "Beginner". Rooms without a track are for everything.
+  track?: string;
+};
+
+type TimeSlot = {
+  start: Date;
+  durationMinutes: number;
+};
+
+type AgendaTalk = TimeSlot & {
+  kind: "talk";
+  talk: Talk;
+  room: string;
+};
+
+type AgendaBreak = TimeSlot & {
+  kind: "break";
+  title: string;
+  // A break without a room is for everyone, nothing else can happen in any room at the same time
+  room?: string;
+};
+
+type AgendaEntry = AgendaTalk | AgendaBreak;
+
+type Agenda = {
+  event: AgendaEvent;
+  rooms: AgendaRoom[];
+  // Sorted by start time
+  entries: AgendaEntry[];
+};
+
+type AgendaConflict =
+  | { kind: "speaker"; speaker: string; entries: [AgendaTalk, AgendaTalk] }
+  | { kind: "room"; room: string; entries: [AgendaEntry, AgendaEntry] }
+  | { kind: "unknown-room"; room: string; entry: AgendaEntry };
+
+// Everything that starts at the same time ends up in one row
+type AgendaRow = {
+  start: Date;
+  entries: AgendaEntry[];
+};
+
+type AgendaTimeline = {
+  // When the first entry starts and the last one ends
+  start: Date;
+  end: Date;
+  rows: AgendaRow[];
+};
+
+type AgendaFormatOptions = {
+  locale?: string;
+  // Defaults to the time zone of whoever is looking
+  timeZone?: string;
+};
+
+function createAgenda(event: AgendaEvent, rooms: AgendaRoom[]): Agenda {
+  return { event, rooms, entries: [] };
+}
+
+// Agendas are never changed in place, so an old one can still be compared with the new one
+function addToAgenda(agenda: Agenda, ...entries: AgendaEntry[]): Agenda {
+  entries.forEach((entry) => {
+    if (!(entry.durationMinutes > 0)) {
+      throw new RangeError(
+        `${entryTitle(entry)} can't take ${entry.durationMinutes} minutes`
+      );
+    }
+  });
+
+  return {
+    ...agenda,
+    entries: [...agenda.entries, ...entries].sort(
+      (a, b) => a.start.getTime() - b.start.getTime()
+    ),
+  };
+}
+
+function entryEnd(entry: TimeSlot) {
+  return new Date(entry.start.getTime() + entry.durationMinutes * 60_000);
+}
+
+function entryTitle(entry: AgendaEntry) {
+  return entry.kind === "talk" ? entry.talk.title : entry.title;
+}
+
+function overlaps(a: TimeSlot, b: TimeSlot) {
+  return a.start < entryEnd(b) && b.start < entryEnd(a);
+}
+
+// Two breaks for everyone can happen at the same time, they're the same break as far as the rooms are concerned
+function shareRoom(a: AgendaEntry, b: AgendaEntry) {
+  if (a.kind === "break" && b.kind === "break") {
+    return a.room !== undefined && a.room === b.room;
+  }
+
+  return a.room === undefined || b.room === undefined || a.room === b.room;
+}
+
+function findAgendaConflicts({ rooms, entries }: Agenda): AgendaConflict[] {
+  const conflicts: AgendaConflict[] = [];
+  const roomNames = new Set(rooms.map((room) => room.name));
+
+  entries.forEach((entry, i) => {
+    if (entry.room !== undefined && !roomNames.has(entry.room)) {
+      conflicts.push({ kind: "unknown-room", room: entry.room, entry });
+    }
+
+    // The entries are sorted, so only the ones after this one can still start before it ends
+    for (let j = i + 1; j < entries.length; j++) {
+      const other = entries[j];
+
+      if (!overlaps(entry, other)) {
+        break;
+      }
+
+      if (shareRoom(entry, other)) {
+        conflicts.push({
+          kind: "room",
+          room: entry.room ?? other.room ?? "everyone",
+          entries: [entry, other],
+        });
+      }
+
+      if (
+        entry.kind === "talk" &&
+        other.kind === "talk" &&
+        entry.talk.speaker === other.talk.speaker
+      ) {
+        conflicts.push({
+          kind: "speaker",
+          speaker: entry.talk.speaker,
+          entries: [entry, other],
+        });
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+// Talks of the event that aren't on the agenda yet
+function unscheduledTalks({ event, entries }: Agenda) {
+  const scheduled = new Set(
+    entries.map((entry) => (entry.kind === "talk" ? entry.talk : undefined))
+  );
+
+  return event.talks.filter((talk) => !scheduled.has(talk));
+}
+
+// The entries of one day, by default the day of the event
+function agendaTimeline(
+  { event, entries }: Agenda,
+  day: Date = event.date
+): AgendaTimeline | undefined {
+  const sameDay = entries.filter(
+    (entry) => entry.start.toDateString() === day.toDateString()
+  );
+
+  if (!sameDay.length) {
+    return undefined;
+  }
+
+  const rows = new Map<number, AgendaEntry[]>();
+
+  sameDay.forEach((entry) => {
+    const start = entry.start.getTime();
+    rows.set(start, [...(rows.get(start) ?? []), entry]);
+  });
+
+  const ends = sameDay.map((entry) => entryEnd(entry).getTime());
+
+  return {
+    start: sameDay[0].start,
+    end: new Date(Math.max(...ends)),
+    rows: Array.from(rows, ([start, entries]) => ({
+      start: new Date(start),
+      entries,
+    })),
+  };
+}
+
+// ? Exporting
+
+function formatAgendaTime(
+  date: Date,
+  { locale, timeZone }: AgendaFormatOptions
+) {
+  return new Intl.DateTimeFormat(locale, {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZone,
+  }).format(date);
+}
+
+function formatAgendaDay(
+  date: Date,
+  { locale, timeZone }: AgendaFormatOptions
+) {
+  return new Intl.DateTimeFormat(locale, {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone,
+  }).format(date);
+}
+
+function describeEntry(entry: AgendaEntry) {
+  return entry.kind === "talk"
+    ? `${entry.talk.title} (${entry.talk.speaker})`
+    : entry.title;
+}
+
+// 09:00-09:45  Main hall  How not to write C# code (Mitchell Mudd)
+function renderAgendaText(
+  agenda: Agenda,
+  options: AgendaFormatOptions = {}
+): string {
+  const timeline = agendaTimeline(agenda);
+  const heading = `${agenda.event.title}, ${formatAgendaDay(
+    agenda.event.date,
+    options
+  )}`;
+
+  if (!timeline) {
+    return `${heading}\n\nNothing scheduled yet\n`;
+  }
+
+  const entries = timeline.rows.flatMap((row) => row.entries);
+  const roomWidth = Math.max(
+    "Everyone".length,
+    ...entries.map((entry) => (entry.room ?? "").length)
+  );
+
+  const lines = entries.map((entry) => {
+    const time = `${formatAgendaTime(entry.start, options)}-${formatAgendaTime(
+      entryEnd(entry),
+      options
+    )}`;
+    const room = (entry.room ?? "Everyone").padEnd(roomWidth);
+
+    return `${time}  ${room}  ${describeEntry(entry)}`;
+  });
+
+  return `${heading}\n\n${lines.join("\n")}\n`;
+}
+
+// A table with a column per room. Breaks for everyone span all of them, unless something else starts at the same time.
+function renderAgendaHTML(
+  agenda: Agenda,
+  options: AgendaFormatOptions = {}
+): SafeHtml {
+  const timeline = agendaTimeline(agenda);
+
+  if (!timeline) {
+    return html`<p class="agenda agenda--empty">Nothing scheduled yet</p>`;
+  }
+
+  const renderEntry = (entry: AgendaEntry) =>
+    html`<div class="agenda__entry agenda__entry--${entry.kind}">
+      <span class="agenda__title">${entryTitle(entry)}</span>
+      ${entry.kind === "talk"
+        ? html`<span class="agenda__speaker">${entry.talk.speaker}</span>`
+        : ""}
+      <span class="agenda__until">until ${formatAgendaTime(
+        entryEnd(entry),
+        options
+      )}</span>
+    </div>`;
+
+  const renderRow = ({ start, entries }: AgendaRow) => {
+    const everyone = entries.filter((entry) => entry.room === undefined);
+    // Something else starts at the same time as a break for everyone. Rather than hide it behind the break, every room
+    // shows the break next to its own entries and the row is marked.
+    const conflict = everyone.length > 0 && everyone.length < entries.length;
+
+    return html`<tr class="${conflict ? "agenda__row--conflict" : ""}">
+      <th scope="row">
+        <time datetime="${start.toISOString()}"
+          >${formatAgendaTime(start, options)}</time
+        >
+      </th>
+      ${everyone.length && !conflict
+        ? html`<td colspan="${agenda.rooms.length}">
+            ${everyone.map(renderEntry)}
+          </td>`
+        : agenda.rooms.map(
+            (room) =>
+              html`<td>
+                ${[
+                  ...everyone,
+                  ...entries.filter((entry) => entry.room === room.name),
+                ].map(renderEntry)}
+              </td>`
+          )}
+    </tr>`;
+  };
+
+  return html`<table class="agenda">
+    <caption>
+      ${agenda.event.title}, ${formatAgendaDay(agenda.event.date, options)}
+    </caption>
+    <thead>
+      <tr>
+        <th scope="col"></th>
+        ${agenda.rooms.map(
+          (room) =>
+            html`<th scope="col">
+              ${room.name}
+              ${room.track
+                ? html`<span class="agenda__track">${room.track}</span>`
+                : ""}
+            </th>`
+        )}
+      </tr>
+    </thead>
+    <tbody>
+      ${timeline.rows.map(renderRow)}
+    </tbody>
+  </table>`;
+}
+
+// Example: the conference from chapter 4 in two rooms, with its one talk and lunch for everyone
+const script19Agenda = addToAgenda(
+  createAgenda(script19 as ConferenceNew, [
+    { name: "Main hall" },
+    { name: "Room 2", track: "Backend" },
+  ]),
+  {
+    kind: "talk",
+    talk: (script19 as ConferenceNew).talks[0],
+    room: "Main hall",
+    start: new Date("2023-06-15T09:00"),
+    durationMinutes: 45,
+  },
+  {
+    kind: "break",
+    title: "Lunch",
+    start: new Date("2023-06-15T12:00"),
+    durationMinutes: 60,
+  }
+);
+
+findAgendaConflicts(script19Agenda);
+renderAgendaText(script19Agenda);
@@ -0,0 +1,355 @@
+// ! RSVPs and attendance
+
+// `userEvents` keeps four lists and nothing keeps them in line: an event can be in `rsvp` and `signedOff` at the same
+// time, and nobody checks `rsvp` against `capacity`. Here a user's relationship to an event is one status that can only
+// move along the transitions below, and the event's rsvp count moves with it.
+
+type UserId = string;
+
+// "waitlisted" is new: the user wants to come, but the event is full
+type AttendanceStatus = UserEventCategory | "waitlisted";
+
+// watching → rsvp → attended or signedOff. An RSVP for a full event ends up on the waitlist instead, and the waitlist is
+// promoted to rsvp when a seat frees up. Everybody starts out watching.
+const attendanceTransitions: Record<AttendanceStatus, AttendanceStatus[]> = {
+  watching: ["rsvp", "waitlisted"],
+  waitlisted: ["rsvp", "signedOff"],
+  rsvp: ["attended", "signedOff"],
+  attended: [],
+  signedOff: [],
+};
+
+class AttendanceError extends Error {
+  constructor(
+    readonly userId: UserId,
+    readonly eventId: EventId,
+    readonly from: AttendanceStatus | undefined,
+    readonly to: AttendanceStatus
+  ) {
+    super(
+      `${userId} can't go from ${from ?? "nothing"} to ${to} for event ${eventId}`
+    );
+    this.name = "AttendanceError";
+  }
+}
+
+type AttendanceChange = {
+  userId: UserId;
+  eventId: EventId;
+  from: AttendanceStatus | undefined;
+  to: AttendanceStatus;
+};
+
+type EventAttendance = {
+  statuses: Map<UserId, AttendanceStatus>;
+  // First come, first served
+  waitlist: UserId[];
+};
+
+// How attendance is written down, one record per event. Plain objects instead of a Map, so it survives JSON.
+type StoredAttendance = {
+  eventId: EventId;
+  statuses: Record<UserId, AttendanceStatus>;
+  waitlist: UserId[];
+};
+
+// Same idea as EventStorage (events-repository.ts). The rsvp counts live in the repository, who holds the seats lives
+// here, and both have to survive a restart.
+type AttendanceStorage = {
+  load(): Promise<StoredAttendance[]>;
+  save(attendance: StoredAttendance[]): Promise<void>;
+};
+
+type AttendanceOptions = {
+  // Defaults to memory
+  storage?: AttendanceStorage;
+  // Called for every change, including the automatic promotions from the waitlist
+  onChange?: (change: AttendanceChange) => void;
+};
+
+// Every method resolves with all of the changes it made, i.e. a sign off that promoted someone from the waitlist
+// resolves with two changes
+type AttendanceTracker = {
+  watch(userId: UserId, eventId: EventId): Promise<AttendanceChange[]>;
+  // Ends up as "rsvp" or, if the event is full, as "waitlisted"
+  rsvp(userId: UserId, eventId: EventId): Promise<AttendanceChange[]>;
+  attend(userId: UserId, eventId: EventId): Promise<AttendanceChange[]>;
+  signOff(userId: UserId, eventId: EventId): Promise<AttendanceChange[]>;
+  status(
+    userId: UserId,
+    eventId: EventId
+  ): Promise<AttendanceStatus | undefined>;
+  waitlist(eventId: EventId): Promise<UserId[]>;
+  // The old shape, built from the statuses. Every event is in exactly one list, waitlisted ones count as watching.
+  userEvents(userId: UserId): Promise<userEvents>;
+};
+
+function canTransition(
+  from: AttendanceStatus | undefined,
+  to: AttendanceStatus
+) {
+  return from === undefined
+    ? to === "watching"
+    : attendanceTransitions[from].includes(to);
+}
+
+// Attended events keep their seat, signed off ones give it back
+function takesSeat(status: AttendanceStatus | undefined) {
+  return status === "rsvp" || status === "attended";
+}
+
+function toStoredAttendance(
+  attendance: Map<EventId, EventAttendance>
+): StoredAttendance[] {
+  return Array.from(attendance, ([eventId, { statuses, waitlist }]) => {
+    const stored: StoredAttendance = { eventId, statuses: {}, waitlist };
+
+    statuses.forEach((status, userId) => {
+      stored.statuses[userId] = status;
+    });
+
+    return stored;
+  });
+}
+
+function fromStoredAttendance(stored: StoredAttendance[]) {
+  return new Map<EventId, EventAttendance>(
+    stored.map(({ eventId, statuses, waitlist }) => [
+      eventId,
+      {
+        statuses: new Map(
+          Object.keys(statuses).map((userId) => [userId, statuses[userId]])
+        ),
+        waitlist: [...waitlist],
+      },
+    ])
+  );
+}
+
+function createAttendanceTracker(
+  repository: EventRepository,
+  {
+    storage = createMemoryAttendanceStorage(),
+    onChange,
+  }: AttendanceOptions = {}
+): AttendanceTracker {
+  let cache: Map<EventId, EventAttendance> | undefined;
+  // Same idea as in the repository: one change at a time, so two RSVPs can't both take the last seat
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const next = queue.then(operation);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async function attendance() {
+    if (!cache) {
+      cache = fromStoredAttendance(await storage.load());
+    }
+
+    return cache;
+  }
+
+  async function attendanceOf(eventId: EventId): Promise<EventAttendance> {
+    return (
+      (await attendance()).get(eventId) ?? { statuses: new Map(), waitlist: [] }
+    );
+  }
+
+  function move(
+    draft: EventAttendance,
+    userId: UserId,
+    eventId: EventId,
+    to: AttendanceStatus
+  ): AttendanceChange {
+    const from = draft.statuses.get(userId);
+
+    if (!canTransition(from, to)) {
+      throw new AttendanceError(userId, eventId, from, to);
+    }
+
+    draft.statuses.set(userId, to);
+    return { userId, eventId, from, to };
+  }
+
+  // The changes are made on a copy, inside one repository operation (`modify`), so the rsvp count is read and written
+  // without any other write in between. The attendance is saved first and the count after it. If the count can't be
+  // saved, the attendance is put back, so a failed save leaves everything as it was.
+  function commit(
+    eventId: EventId,
+    apply: (draft: EventAttendance, event: StoredEvent) => AttendanceChange[]
+  ) {
+    return enqueue(async () => {
+      const current = await attendance();
+      const before = await attendanceOf(eventId);
+      const draft: EventAttendance = {
+        statuses: new Map(before.statuses),
+        waitlist: [...before.waitlist],
+      };
+      const next = new Map(current).set(eventId, draft);
+      let saved = false;
+
+      try {
+        const changes = await repository.modify(eventId, async (event) => {
+          const changes = apply(draft, event);
+          // How many seats the changes take, on top of what the event has now
+          const taken = () =>
+            changes.reduce(
+              (sum, { from, to }) =>
+                sum + Number(takesSeat(to)) - Number(takesSeat(from)),
+              0
+            );
+
+          // A seat that frees up goes to the waitlist first. This also catches a capacity that went up in the meantime.
+          while (
+            draft.waitlist.length &&
+            event.rsvp + taken() < event.capacity
+          ) {
+            const promoted = draft.waitlist.shift()!;
+            changes.push(move(draft, promoted, eventId, "rsvp"));
+          }
+
+          await storage.save(toStoredAttendance(next));
+          saved = true;
+
+          return {
+            changes: taken() ? { rsvp: event.rsvp + taken() } : {},
+            result: changes,
+          };
+        });
+
+        cache = next;
+        changes.forEach((change) => onChange?.(change));
+
+        return changes;
+      } catch (error) {
+        if (saved) {
+          await storage.save(toStoredAttendance(current));
+        }
+
+        throw error;
+      }
+    });
+  }
+
+  return {
+    watch(userId, eventId) {
+      return commit(eventId, (draft) => [
+        move(draft, userId, eventId, "watching"),
+      ]);
+    },
+
+    rsvp(userId, eventId) {
+      return commit(eventId, (draft, event) => {
+        // Nobody skips the queue, even if a seat is free right now
+        if (draft.waitlist.length || event.rsvp >= event.capacity) {
+          const change = move(draft, userId, eventId, "waitlisted");
+          draft.waitlist.push(userId);
+          return [change];
+        }
+
+        return [move(draft, userId, eventId, "rsvp")];
+      });
+    },
+
+    attend(userId, eventId) {
+      return commit(eventId, (draft) => [
+        move(draft, userId, eventId, "attended"),
+      ]);
+    },
+
+    signOff(userId, eventId) {
+      return commit(eventId, (draft) => {
+        const change = move(draft, userId, eventId, "signedOff");
+        draft.waitlist = draft.waitlist.filter((waiting) => waiting !== userId);
+        return [change];
+      });
+    },
+
+    status(userId, eventId) {
+      return enqueue(async () =>
+        (await attendanceOf(eventId)).statuses.get(userId)
+      );
+    },
+
+    waitlist(eventId) {
+      return enqueue(async () => [...(await attendanceOf(eventId)).waitlist]);
+    },
+
+    userEvents(userId) {
+      return enqueue(async () => {
+        const lists: userEvents = {
+          watching: [],
+          rsvp: [],
+          attended: [],
+          signedOff: [],
+        };
+
+        for (const [eventId, { statuses }] of await attendance()) {
+          const status = statuses.get(userId);
+          // Events that were removed from the repository in the meantime are skipped
+          const event = status && (await repository.get(eventId));
+
+          if (status && event) {
+            lists[status === "waitlisted" ? "watching" : status].push(event);
+          }
+        }
+
+        return lists;
+      });
+    },
+  };
+}
+
+// ? Storage backends, like the ones for events
+
+function createMemoryAttendanceStorage(
+  initial: StoredAttendance[] = []
+): AttendanceStorage {
+  let attendance = initial;
+
+  return {
+    async load() {
+      return attendance;
+    },
+    async save(next) {
+      attendance = next;
+    },
+  };
+}
+
+function createJsonFileAttendanceStorage(path: string): AttendanceStorage {
+  return {
+    async load() {
+      const json = await readJsonFile(path);
+      return json === undefined ? [] : JSON.parse(json);
+    },
+
+    save(attendance) {
+      return writeJsonFile(path, attendance);
+    },
+  };
+}
+
+// Example: RSVPs for the events in the repository from events-repository.ts. In development both are files, so a
+// restart remembers who holds the seats as well as how many are taken.
+const attendanceTracker = createAttendanceTracker(eventRepository, {
+  storage: isDevelopment
+    ? createJsonFileAttendanceStorage("attendance.json")
+    : createMemoryAttendanceStorage(),
+  onChange({ userId, to }) {
+    if (isDevelopment) {
+      console.log(`${userId} is now ${to}`);
+    }
+  },
+});
+
+async function rsvpForEvent(userId: UserId, eventId: EventId) {
+  await attendanceTracker.watch(userId, eventId);
+  const [change] = await attendanceTracker.rsvp(userId, eventId);
+
+  return change.to === "rsvp"
+    ? "See you there!"
+    : "The event is full, you're on the waitlist";
+}
@@ -0,0 +1,583 @@
+// ! iCalendar export and import
+
+// Attendees want our events in their own calendars. `toICalendar` writes any TechEventNewer as an .ics file (RFC 5545),
+// and `parseICalendar` reads one back into drafts, together with a list of everything it didn't know what to do with.
+
+// Every event is one VEVENT. Talks become VEVENTs of their own, pointing back at their event with RELATED-TO.
+// The things a calendar has no property for are written as X- properties, so we get them back when we import our own
+// files.
+const CALENDAR_KIND = "X-TECH-EVENT-KIND";
+const CALENDAR_PRICE = "X-TECH-EVENT-PRICE";
+const CALENDAR_CAPACITY = "X-TECH-EVENT-CAPACITY";
+const CALENDAR_RSVP = "X-TECH-EVENT-RSVP";
+const CALENDAR_SPEAKER = "X-TECH-EVENT-SPEAKER";
+
+type CalendarExportOptions = {
+  // Ends up in every UID, i.e. "<id>@tech-events.example.com". Defaults to tech-events.example.com.
+  domain?: string;
+  // Events don't know when they end. Defaults to an hour.
+  durationMinutes?: number;
+  // When the file was made. Defaults to now.
+  stamp?: Date;
+};
+
+// What a calendar can give back. It doesn't know about capacity or rsvp unless we wrote the file ourselves, so
+// everything except the talks can be missing.
+type CalendarEventDraft = Partial<TechEventBaseNew> & {
+  uid?: string;
+  kind?: EventKind2;
+  location?: string;
+  url?: string;
+  price?: number | string;
+  talks: Talk[];
+};
+
+type UnmappedCalendarField = {
+  // Where it starts in the file, counting from 1
+  line: number;
+  // The component it belongs to, i.e. "VEVENT" or "VCALENDAR"
+  component: string;
+  name: string;
+  value: string;
+  reason: string;
+};
+
+type CalendarImport = {
+  events: CalendarEventDraft[];
+  unmapped: UnmappedCalendarField[];
+};
+
+// Only for files we can't make sense of at all, i.e. a BEGIN without an END. Anything else ends up in `unmapped`.
+class CalendarParseError extends Error {
+  constructor(readonly line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = "CalendarParseError";
+  }
+}
+
+// ? Export
+
+// Commas, semicolons and line breaks mean something in a content line, so text values escape them
+function escapeCalendarText(text: string) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// 20230615T090000Z, always in UTC
+function formatCalendarDate(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+const calendarEncoder = new TextEncoder();
+
+// Lines can't be longer than 75 bytes, longer ones continue on the next line after a space
+function foldCalendarLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of line) {
+    const bytes = calendarEncoder.encode(char).length;
+    // The space in front of a continuation counts too
+    const limit = parts.length ? 74 : 75;
+
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+
+    current += char;
+    size += bytes;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventTalks(event: TechEventNewer): Talk[] {
+  if (!("talks" in event)) {
+    return [];
+  }
+
+  // A Webinar has exactly one talk, the others have a list
+  return Array.isArray(event.talks) ? event.talks : [event.talks];
+}
+
+// Events from the repository (events-repository.ts) have an id. For the others the title and date have to do.
+function calendarUid(event: TechEventNewer | StoredEvent, domain: string) {
+  const slug = event.title.toLowerCase().replace(/\W+/g, "-");
+  const id = "id" in event ? event.id : `${slug}-${event.date.getTime()}`;
+
+  return `${id}@${domain}`;
+}
+
+function eventToCalendarLines(
+  event: TechEventNewer | StoredEvent,
+  { domain, durationMinutes, stamp }: Required<CalendarExportOptions>
+) {
+  const uid = calendarUid(event, domain);
+  const start = formatCalendarDate(event.date);
+  const shared = [
+    `DTSTAMP:${formatCalendarDate(stamp)}`,
+    `DTSTART:${start}`,
+    `DURATION:PT${durationMinutes}M`,
+  ];
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    ...shared,
+    `SUMMARY:${escapeCalendarText(event.title)}`,
+    `DESCRIPTION:${escapeCalendarText(event.description)}`,
+    "location" in event
+      ? `LOCATION:${escapeCalendarText(event.location)}`
+      : `URL:${event.url}`,
+    `${CALENDAR_KIND}:${event.kind}`,
+    `${CALENDAR_CAPACITY}:${event.capacity}`,
+    `${CALENDAR_RSVP}:${event.rsvp}`,
+  ];
+
+  if (event.price !== undefined) {
+    lines.push(`${CALENDAR_PRICE}:${escapeCalendarText(String(event.price))}`);
+  }
+
+  lines.push("END:VEVENT");
+
+  eventTalks(event).forEach((talk, i) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:talk-${i + 1}-${uid}`,
+      ...shared,
+      `RELATED-TO;RELTYPE=PARENT:${uid}`,
+      `SUMMARY:${escapeCalendarText(talk.title)}`,
+      `DESCRIPTION:${escapeCalendarText(talk.abstract)}`,
+      `${CALENDAR_SPEAKER}:${escapeCalendarText(talk.speaker)}`,
+      "END:VEVENT"
+    );
+  });
+
+  return lines;
+}
+
+function toICalendar(
+  events: TechEventNewer | Array<TechEventNewer | StoredEvent>,
+  {
+    domain = "tech-events.example.com",
+    durationMinutes = 60,
+    stamp = new Date(),
+  }: CalendarExportOptions = {}
+) {
+  const list = Array.isArray(events) ? events : [events];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Tech Events//Events//EN",
+    "CALSCALE:GREGORIAN",
+    ...list.flatMap((event) =>
+      eventToCalendarLines(event, { domain, durationMinutes, stamp })
+    ),
+    "END:VCALENDAR",
+  ];
+
+  // Lines end in CRLF, including the last one
+  return lines.map(foldCalendarLine).join("\r\n") + "\r\n";
+}
+
+// ? Import
+
+type CalendarProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  line: number;
+};
+
+type CalendarComponent = {
+  name: string;
+  properties: CalendarProperty[];
+  components: CalendarComponent[];
+  line: number;
+};
+
+// Puts folded lines back together and remembers where each one started
+function unfoldCalendarLines(text: string) {
+  const lines: { text: string; line: number }[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (/^[ \t]/.test(raw) && lines.length) {
+      lines[lines.length - 1].text += raw.slice(1);
+    } else if (raw.trim()) {
+      lines.push({ text: raw, line: i + 1 });
+    }
+  });
+
+  return lines;
+}
+
+// NAME;PARAM=a;OTHER="b:c":value. Colons and semicolons inside quotes don't count. Without a colon it's no property
+// at all.
+function parseCalendarLine(
+  text: string,
+  line: number
+): CalendarProperty | undefined {
+  const segments: string[] = [];
+  let current = "";
+  let quoted = false;
+  let i = 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === ";" || char === ":")) {
+      segments.push(current);
+      current = "";
+
+      if (char === ":") {
+        break;
+      }
+
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (i === text.length) {
+    return undefined;
+  }
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+
+  rawParams.forEach((param) => {
+    const [key, ...value] = param.split("=");
+    params[key.toUpperCase()] = value.join("=").replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value: text.slice(i + 1), line };
+}
+
+// Lines that aren't properties are handed to `onInvalidLine`, together with the component they're in
+function parseCalendarComponents(
+  text: string,
+  onInvalidLine: (component: string, text: string, line: number) => void
+): CalendarComponent[] {
+  const root: CalendarComponent = {
+    name: "ROOT",
+    properties: [],
+    components: [],
+    line: 0,
+  };
+  const stack = [root];
+
+  unfoldCalendarLines(text).forEach(({ text, line }) => {
+    const property = parseCalendarLine(text, line);
+    const parent = stack[stack.length - 1];
+
+    if (!property) {
+      onInvalidLine(parent.name, text, line);
+    } else if (property.name === "BEGIN") {
+      const component: CalendarComponent = {
+        name: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+        line,
+      };
+
+      parent.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (parent === root || parent.name !== property.value.toUpperCase()) {
+        throw new CalendarParseError(
+          line,
+          `END:${property.value} doesn't close ${parent.name}`
+        );
+      }
+
+      stack.pop();
+    } else {
+      parent.properties.push(property);
+    }
+  });
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    throw new CalendarParseError(open.line, `${open.name} is never closed`);
+  }
+
+  return root.components;
+}
+
+function unescapeCalendarText(text: string) {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+// 20230615 is a whole day, 20230615T090000Z is UTC. Without the Z (or with a TZID) it's read as local time.
+function parseCalendarDate(value: string): Date | undefined {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+  );
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", utc] =
+    match;
+  const [y, m, d, h, min, sec] = [year, month, day, hours, minutes, seconds].map(
+    Number
+  );
+
+  // Months count from 0 in JavaScript
+  return utc
+    ? new Date(Date.UTC(y, m - 1, d, h, min, sec))
+    : new Date(y, m - 1, d, h, min, sec);
+}
+
+// Properties that every calendar writes but that mean nothing to an event
+const ignoredCalendarProperties = [
+  "VERSION",
+  "PRODID",
+  "CALSCALE",
+  "METHOD",
+  "DTSTAMP",
+  "DTEND",
+  "DURATION",
+  "SEQUENCE",
+];
+
+function parseICalendar(text: string): CalendarImport {
+  const events: CalendarEventDraft[] = [];
+  const unmapped: UnmappedCalendarField[] = [];
+  // Talks can come before their event, so they are matched up at the end
+  const talks: { parent: string; talk: Talk; line: number }[] = [];
+
+  function skip(
+    component: string,
+    { name, value, line }: Pick<CalendarProperty, "name" | "value" | "line">,
+    reason: string
+  ) {
+    unmapped.push({ line, component, name, value, reason });
+  }
+
+  function readNumber(property: CalendarProperty) {
+    const number = Number(property.value);
+
+    if (property.value.trim() === "" || Number.isNaN(number)) {
+      skip("VEVENT", property, "not a number");
+      return undefined;
+    }
+
+    return number;
+  }
+
+  // Alarms and the like inside of a VEVENT have no place to go either
+  function skipNested(component: CalendarComponent) {
+    component.components.forEach((nested) => {
+      skip(
+        component.name,
+        { name: "BEGIN", value: nested.name, line: nested.line },
+        "unsupported component"
+      );
+    });
+  }
+
+  function readEvent(component: CalendarComponent) {
+    skipNested(component);
+
+    const parent = component.properties.find(
+      (property) =>
+        property.name === "RELATED-TO" &&
+        (property.params.RELTYPE ?? "PARENT").toUpperCase() === "PARENT"
+    );
+
+    if (parent) {
+      readTalk(component, parent.value);
+      return;
+    }
+
+    const draft: CalendarEventDraft = { talks: [] };
+    let price: CalendarProperty | undefined;
+
+    component.properties.forEach((property) => {
+      const text = unescapeCalendarText(property.value);
+
+      switch (property.name) {
+        case "UID":
+          draft.uid = property.value;
+          break;
+        case "SUMMARY":
+          draft.title = text;
+          break;
+        case "DESCRIPTION":
+          draft.description = text;
+          break;
+        case "LOCATION":
+          draft.location = text;
+          break;
+        case "URL":
+          draft.url = property.value;
+          break;
+        case "DTSTART": {
+          const date = parseCalendarDate(property.value);
+
+          if (date) {
+            draft.date = date;
+          } else {
+            skip(component.name, property, "not a date");
+          }
+
+          // We'd need the VTIMEZONE to know what the zone means, so the time is read as local time and that's reported
+          const zone = property.params.TZID;
+
+          if (date && zone) {
+            skip(
+              component.name,
+              { name: "TZID", value: zone, line: property.line },
+              "time zones aren't supported, DTSTART was read as local time"
+            );
+          }
+          break;
+        }
+        case CALENDAR_KIND:
+          if (isEventKind(property.value)) {
+            draft.kind = property.value;
+          } else {
+            skip(component.name, property, "unknown kind of event");
+          }
+          break;
+        case CALENDAR_PRICE:
+          price = property;
+          break;
+        case CALENDAR_CAPACITY:
+          draft.capacity = readNumber(property);
+          break;
+        case CALENDAR_RSVP:
+          draft.rsvp = readNumber(property);
+          break;
+        default:
+          if (!ignoredCalendarProperties.includes(property.name)) {
+            skip(component.name, property, "no matching field");
+          }
+      }
+    });
+
+    // Meetups have their price as text, the others as a number. The kind can come after the price, so this waits for
+    // the whole event. Without a kind there's no telling, so the text is kept.
+    if (price) {
+      draft.price =
+        draft.kind === undefined || draft.kind === "Meetup"
+          ? unescapeCalendarText(price.value)
+          : readNumber(price);
+    }
+
+    events.push(draft);
+  }
+
+  function readTalk(component: CalendarComponent, parent: string) {
+    const talk: Talk = { title: "", abstract: "", speaker: "" };
+
+    component.properties.forEach((property) => {
+      const text = unescapeCalendarText(property.value);
+
+      switch (property.name) {
+        case "SUMMARY":
+          talk.title = text;
+          break;
+        case "DESCRIPTION":
+          talk.abstract = text;
+          break;
+        case CALENDAR_SPEAKER:
+          talk.speaker = text;
+          break;
+        case "UID":
+        case "RELATED-TO":
+        case "DTSTART":
+          break;
+        default:
+          if (!ignoredCalendarProperties.includes(property.name)) {
+            skip("VEVENT", property, "no matching field on a talk");
+          }
+      }
+    });
+
+    talks.push({ parent, talk, line: component.line });
+  }
+
+  function skipLine(component: string, value: string, line: number) {
+    skip(component, { name: "", value, line }, "not a NAME:value line");
+  }
+
+  parseCalendarComponents(text, skipLine).forEach((calendar) => {
+    if (calendar.name !== "VCALENDAR") {
+      skip(
+        calendar.name,
+        { name: "BEGIN", value: calendar.name, line: calendar.line },
+        "not a calendar"
+      );
+      return;
+    }
+
+    calendar.properties.forEach((property) => {
+      if (!ignoredCalendarProperties.includes(property.name)) {
+        skip(calendar.name, property, "no matching field");
+      }
+    });
+
+    calendar.components.forEach((component) => {
+      if (component.name === "VEVENT") {
+        readEvent(component);
+      } else {
+        // VTODO, VTIMEZONE, ... and the alarms inside of them
+        skip(
+          calendar.name,
+          { name: "BEGIN", value: component.name, line: component.line },
+          "unsupported component"
+        );
+      }
+    });
+  });
+
+  talks.forEach(({ parent, talk, line }) => {
+    const event = events.find((event) => event.uid === parent);
+
+    if (event) {
+      event.talks.push(talk);
+    } else {
+      skip(
+        "VEVENT",
+        { name: "RELATED-TO", value: parent, line },
+        "talk without its event"
+      );
+    }
+  });
+
+  return { events, unmapped };
+}
+
+// Example: offer the next events in Amsterdam (events-query.ts) as a download
+function downloadCalendar(events: TechEventNewer[], filename = "events.ics") {
+  const blob = new Blob([toICalendar(events)], { type: "text/calendar" });
+  const link = document.createElement("a");
+
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+
+  // Some browsers (Firefox) only start the download after click() returns, revoking right away would cancel it.
+  // There is no event for "the download started", so give it plenty of time.
+  setTimeout(() => URL.revokeObjectURL(link.href), 10_000);
+}
+
+document
+  .getElementById("download-calendar")
+  ?.addEventListener("click", () => downloadCalendar(nextInAmsterdam));
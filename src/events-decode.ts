@@ -0,0 +1,245 @@
+// ! Decoding events
+
+// Events reach us as JSON from the API: dates are strings, `kind` is whatever string the backend felt like sending,
+// and a Webinar's `talks` sometimes comes as an array. `decodeEvent` picks the branch of TechEventNewer by its kind,
+// turns the date into a Date and has the handler for the kind (events-registry.ts) check the fields it needs. Like the
+// search validators (search-validate.ts) it keeps going after the first problem, so one error tells you everything
+// that's wrong with a record.
+
+class EventDecodeError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(
+      `Invalid event: ${issues
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "EventDecodeError";
+  }
+}
+
+type RejectedEvent = {
+  // Where it was in the list
+  index: number;
+  value: unknown;
+  issues: ValidationIssue[];
+};
+
+type DecodedEvents = {
+  events: TechEventNewer[];
+  rejected: RejectedEvent[];
+};
+
+// ? Fields. Every reader reports what's wrong and gives back undefined, so the caller can carry on.
+
+function readString(value: unknown, path: string, issues: ValidationIssue[]) {
+  return checkString(value, path, issues) ? value : undefined;
+}
+
+function readNumber(value: unknown, path: string, issues: ValidationIssue[]) {
+  return checkNumber(value, path, issues) ? value : undefined;
+}
+
+// Prices are optional for Webinars and Hackathons
+function readOptionalNumber(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+) {
+  return value === undefined ? undefined : readNumber(value, path, issues);
+}
+
+// "2023-06-15" or "2023-06-15T09:00:00Z". A Date is fine too, i.e. for events that never went through JSON.
+function readDate(value: unknown, path: string, issues: ValidationIssue[]) {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return value;
+  }
+
+  const ymd =
+    typeof value === "string" && /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+
+  if (typeof value === "string" && ymd) {
+    const date = new Date(value);
+    // "2023-02-30" would roll over to March 2nd. The calendar date is checked on its own, in UTC, so a time or an offset
+    // that moves the instant to another day doesn't count against it.
+    const [year, month, day] = ymd.slice(1).map(Number);
+    const calendar = new Date(Date.UTC(year, month - 1, day));
+
+    if (
+      !Number.isNaN(date.getTime()) &&
+      calendar.getUTCFullYear() === year &&
+      calendar.getUTCMonth() === month - 1 &&
+      calendar.getUTCDate() === day
+    ) {
+      return date;
+    }
+  }
+
+  issues.push({
+    path,
+    message: `should be an ISO date, got ${
+      typeof value === "string" ? JSON.stringify(value) : describeType(value)
+    }`,
+  });
+  return undefined;
+}
+
+function readTalk(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): Talk | undefined {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `should be an object, got ${describeType(value)}`,
+    });
+    return undefined;
+  }
+
+  const title = readString(value.title, `${path}.title`, issues);
+  const abstract = readString(value.abstract, `${path}.abstract`, issues);
+  const speaker = readString(value.speaker, `${path}.speaker`, issues);
+
+  if (title === undefined || abstract === undefined || speaker === undefined) {
+    return undefined;
+  }
+
+  return { title, abstract, speaker };
+}
+
+function readTalks(value: unknown, path: string, issues: ValidationIssue[]) {
+  if (!Array.isArray(value)) {
+    issues.push({
+      path,
+      message: `should be an array, got ${describeType(value)}`,
+    });
+    return undefined;
+  }
+
+  const talks = value.map((talk, i) => readTalk(talk, `${path}[${i}]`, issues));
+
+  return talks.every((talk): talk is Talk => talk !== undefined)
+    ? talks
+    : undefined;
+}
+
+// A Webinar has one talk. An array with exactly one talk in it is what the API sometimes sends instead.
+function readWebinarTalk(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+) {
+  if (!Array.isArray(value)) {
+    return readTalk(value, path, issues);
+  }
+
+  if (value.length !== 1) {
+    issues.push({
+      path,
+      message: `should be a single talk, got ${value.length}`,
+    });
+    return undefined;
+  }
+
+  return readTalk(value[0], `${path}[0]`, issues);
+}
+
+// ? Events
+
+function readEvent(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): TechEventNewer | undefined {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `should be an object, got ${describeType(value)}`,
+    });
+    return undefined;
+  }
+
+  const before = issues.length;
+
+  const base = {
+    title: readString(value.title, `${path}.title`, issues),
+    description: readString(value.description, `${path}.description`, issues),
+    date: readDate(value.date, `${path}.date`, issues),
+    capacity: readNumber(value.capacity, `${path}.capacity`, issues),
+    rsvp: readNumber(value.rsvp, `${path}.rsvp`, issues),
+  };
+
+  // Without a kind we don't know which other fields to check, but the shared ones are still worth reporting
+  if (!isEventKind(value.kind)) {
+    issues.push({
+      path: `${path}.kind`,
+      message: `should be one of ${registeredEventKinds.join(
+        ", "
+      )}, got ${JSON.stringify(value.kind)}`,
+    });
+    return undefined;
+  }
+
+  // The fields only this kind has are checked by its handler (events-registry.ts)
+  const fields = eventKinds[value.kind].validate(value, path, issues);
+
+  if (issues.length > before) {
+    return undefined;
+  }
+
+  // Every field was checked above, the undefineds are only there for the ones that weren't valid
+  return { ...base, ...fields, kind: value.kind } as TechEventNewer;
+}
+
+function decodeEvent(value: unknown): TechEventNewer {
+  const issues: ValidationIssue[] = [];
+  const event = readEvent(value, "$", issues);
+
+  if (!event) {
+    throw new EventDecodeError(issues);
+  }
+
+  return event;
+}
+
+// One broken record doesn't throw away the others
+function decodeEvents(value: unknown): DecodedEvents {
+  if (!Array.isArray(value)) {
+    throw new EventDecodeError([
+      { path: "$", message: `should be an array, got ${describeType(value)}` },
+    ]);
+  }
+
+  const decoded: DecodedEvents = { events: [], rejected: [] };
+
+  value.forEach((item, index) => {
+    const issues: ValidationIssue[] = [];
+    const event = readEvent(item, `$[${index}]`, issues);
+
+    if (event) {
+      decoded.events.push(event);
+    } else {
+      decoded.rejected.push({ index, value: item, issues });
+    }
+  });
+
+  return decoded;
+}
+
+// Example: load the events from the API and keep the good ones. The client (search-client.ts) rejects with a
+// SearchFailure for a 500 or a network error, so only a body the API meant to send gets decoded.
+async function fetchEvents(
+  client: SearchClient = searchClient,
+  options?: SearchOptions
+) {
+  const body = await client.json("events", options);
+  const { events, rejected } = decodeEvents(body);
+
+  if (isDevelopment) {
+    rejected.forEach(({ index, issues }) => {
+      console.warn(`Skipped event ${index}`, issues);
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,85 @@
+// ! Grouping events
+
+// `groupEvents` returns GroupedEvents2, where every bucket is a TechEventNewer[], and it needs a @ts-ignore to push into
+// them. `groupBy` works for any list and any key: grouping by a discriminant like `kind` gives every bucket its own
+// member of the union, and a function can compute the key instead, i.e. the month or a price band.
+
+// The properties whose values can be used as an object key
+type GroupKey<Item> = {
+  [Key in keyof Item]-?: Item[Key] extends PropertyKey ? Key : never;
+}[keyof Item];
+
+// One bucket per value of the key. For a discriminant each bucket gets the matching member of the union.
+type GroupedBy<Item, Key extends GroupKey<Item>> = {
+  [Value in Item[Key] & PropertyKey]: Extract<Item, Record<Key, Value>>[];
+};
+
+// { Conference: ConferenceNew[]; Hackathon: Hackathon[]; Meetup: MeetupNew[]; Webinar: WebinarNew[] }, which is what
+// GroupedEvents spelled out by hand. A new kind of event gets its own bucket automatically.
+type EventsByKind = GroupedBy<TechEventNewer, "kind">;
+
+// Only values that actually show up get a bucket, so every bucket is optional
+function groupBy<Item, Key extends GroupKey<Item>>(
+  items: Item[],
+  key: Key
+): Partial<GroupedBy<Item, Key>>;
+function groupBy<Item, Group extends PropertyKey>(
+  items: Item[],
+  keyOf: (item: Item) => Group
+): Partial<Record<Group, Item[]>>;
+function groupBy<Item>(
+  items: Item[],
+  key: PropertyKey | ((item: Item) => PropertyKey)
+) {
+  const groups: Partial<Record<PropertyKey, Item[]>> = {};
+  const keyOf =
+    typeof key === "function"
+      ? key
+      : (item: Item) => item[key as keyof Item] as PropertyKey;
+
+  items.forEach((item) => {
+    const group = keyOf(item);
+    (groups[group] ??= []).push(item);
+  });
+
+  return groups;
+}
+
+// ? Computed keys
+
+// "2023-06". Sorts the same way as the dates do.
+function eventMonth(event: TechEventNewer) {
+  const month = String(event.date.getMonth() + 1).padStart(2, "0");
+  return `${event.date.getFullYear()}-${month}`;
+}
+
+// Webinars happen online
+function eventLocation(event: TechEventNewer) {
+  return "location" in event ? event.location : "online";
+}
+
+type PriceBand = "free" | "budget" | "standard" | "premium" | "unknown";
+
+// Uses the same price reading as the event queries (events-query.ts)
+function priceBand(event: TechEventNewer): PriceBand {
+  const price = eventPrice(event);
+
+  if (price === undefined) {
+    return "unknown";
+  }
+
+  if (price === 0) {
+    return "free";
+  }
+
+  if (price < 50) {
+    return "budget";
+  }
+
+  return price < 250 ? "standard" : "premium";
+}
+
+// Example: `byKind.Meetup` is a MeetupNew[] | undefined, `byBand.premium` a TechEventNew[] | undefined
+const byKind = groupBy(eventList, "kind");
+const byMonth = groupBy(eventList, eventMonth);
+const byBand = groupBy(eventList, priceBand);
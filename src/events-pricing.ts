@@ -0,0 +1,261 @@
+// ! Money and tickets
+
+// Every kind of event has its own idea of a price: a number for conferences, a string for meetups, and an optional
+// number for webinars and hackathons, which probably means free. The teasers then add "USD" to whatever is there.
+// `Money` always knows its currency, counts in whole cents so adding up never gives us 0.30000000000000004, and has
+// a separate state for free. Ticket tiers give an event more than one price, each for a limited time.
+
+// How many minor units make up one major unit, i.e. 100 cents in a dollar
+const currencyMinorDigits = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  JPY: 0,
+};
+
+type Currency = keyof typeof currencyMinorDigits;
+
+type Money =
+  | { kind: "free" }
+  | {
+      kind: "paid";
+      currency: Currency;
+      // Whole cents (or whatever the currency counts in)
+      minor: number;
+    };
+
+const FREE: Money = { kind: "free" };
+
+function money(amount: number, currency: Currency): Money {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new RangeError(`${amount} is not a price`);
+  }
+
+  const minor = Math.round(amount * 10 ** currencyMinorDigits[currency]);
+  return minor === 0 ? FREE : { kind: "paid", currency, minor };
+}
+
+function toMajorUnits(price: Money) {
+  return price.kind === "free"
+    ? 0
+    : price.minor / 10 ** currencyMinorDigits[price.currency];
+}
+
+// Group tickets cost the price of one ticket times the group size
+function multiplyMoney(price: Money, times: number): Money {
+  if (price.kind === "free") {
+    return price;
+  }
+
+  return { ...price, minor: Math.round(price.minor * times) };
+}
+
+// Free is cheaper than anything. Two paid prices have to be in the same currency, we don't do exchange rates.
+function compareMoney(a: Money, b: Money) {
+  if (a.kind === "free" || b.kind === "free") {
+    return Number(a.kind === "paid") - Number(b.kind === "paid");
+  }
+
+  if (a.currency !== b.currency) {
+    throw new RangeError(`Can't compare ${a.currency} to ${b.currency}`);
+  }
+
+  return a.minor - b.minor;
+}
+
+function formatMoney(price: Money, locale = "en-US") {
+  if (price.kind === "free") {
+    return "Free";
+  }
+
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: price.currency,
+  }).format(toMajorUnits(price));
+}
+
+// ? Reading the prices the events have now
+
+const currencySymbols: Record<string, Currency> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+};
+
+// "10,50" is ten and a half, but "1,050" is a thousand and fifty: a comma on its own is only a decimal comma with one
+// or two digits after it. With both "1.050,50" and "1,050.50", whichever comes last is the decimal separator.
+// There has to be exactly one number: "-10" or "-$10" isn't a price and "$10 - $20" is a range, all give NaN.
+function parseAmount(text: string) {
+  const numbers = text.match(/\d[\d.,]*/g) ?? [];
+  const start = text.search(/\d/);
+
+  if (
+    numbers.length !== 1 ||
+    /-\s*[$€£¥]?\s*$/.test(text.slice(0, start))
+  ) {
+    return Number.NaN;
+  }
+
+  // "$10." or "10, EUR": the punctuation after the number isn't part of it
+  const digits = numbers[0].replace(/[.,]+$/, "");
+  const decimalComma =
+    /^\d+,\d{1,2}$/.test(digits) ||
+    (digits.includes(".") && digits.lastIndexOf(",") > digits.lastIndexOf("."));
+
+  return Number.parseFloat(
+    decimalComma
+      ? digits.replace(/\./g, "").replace(",", ".")
+      : digits.replace(/,/g, "")
+  );
+}
+
+// Numbers are in the default currency. Meetup strings like "€10" or "10 EUR" bring their own, "Free" is free.
+// Anything else we can't read, including negative numbers, gives undefined.
+function parsePrice(
+  price: number | string | undefined,
+  currency: Currency = "USD"
+): Money | undefined {
+  if (price === undefined) {
+    return FREE;
+  }
+
+  if (typeof price === "number") {
+    // money() would throw for these, but a broken price shouldn't take the whole page down with it
+    return Number.isFinite(price) && price >= 0
+      ? money(price, currency)
+      : undefined;
+  }
+
+  if (/^\s*free\s*$/i.test(price)) {
+    return FREE;
+  }
+
+  const amount = parseAmount(price);
+
+  if (Number.isNaN(amount)) {
+    return undefined;
+  }
+
+  const code = Object.keys(currencyMinorDigits).find((code) =>
+    price.toUpperCase().includes(code)
+  );
+  const symbol = Object.keys(currencySymbols).find((symbol) =>
+    price.includes(symbol)
+  );
+
+  return money(amount, code ?? (symbol ? currencySymbols[symbol] : currency));
+}
+
+// ? Ticket tiers
+
+type TicketTier = {
+  name: string;
+  price: Money;
+  // Both ends are optional, a tier without them is always available
+  availableFrom?: Date;
+  availableUntil?: Date;
+} & (
+  | { kind: "regular" | "earlyBird" | "student" }
+  // The price is per person, for groups of at least `minimumSize`
+  | { kind: "group"; minimumSize: number }
+);
+
+type TicketRequest = {
+  // Defaults to now
+  at?: Date;
+  // Defaults to 1
+  groupSize?: number;
+  student?: boolean;
+};
+
+function isTierAvailable(tier: TicketTier, at = new Date()) {
+  return (
+    (!tier.availableFrom || tier.availableFrom <= at) &&
+    (!tier.availableUntil || at <= tier.availableUntil)
+  );
+}
+
+function canUseTier(
+  tier: TicketTier,
+  { at = new Date(), groupSize = 1, student = false }: TicketRequest
+) {
+  if (!isTierAvailable(tier, at)) {
+    return false;
+  }
+
+  switch (tier.kind) {
+    case "regular":
+    case "earlyBird":
+      return true;
+    case "student":
+      return student;
+    case "group":
+      return groupSize >= tier.minimumSize;
+    default:
+      throw neverError("Unknown ticket tier", tier);
+  }
+}
+
+// The cheapest tier the request qualifies for, or undefined if none of them is on sale
+function cheapestTier(tiers: TicketTier[], request: TicketRequest = {}) {
+  const usable = tiers
+    .filter((tier) => canUseTier(tier, request))
+    .sort((a, b) => compareMoney(a.price, b.price));
+
+  return usable.length ? usable[0] : undefined;
+}
+
+// What the whole request costs with the cheapest tier
+function ticketTotal(tiers: TicketTier[], request: TicketRequest = {}) {
+  const tier = cheapestTier(tiers, request);
+  return tier && multiplyMoney(tier.price, request.groupSize ?? 1);
+}
+
+// ? Formatting event prices. printEvent and the teasers in chapter 4 go through this.
+
+type PricedEvent = {
+  price?: number | string;
+  // Events with tiers show the cheapest ticket that's on sale instead of the price
+  tickets?: TicketTier[];
+};
+
+type PriceFormatOptions = {
+  // For prices that don't say. Defaults to USD.
+  currency?: Currency;
+  locale?: string;
+  // Defaults to now
+  at?: Date;
+};
+
+function formatEventPrice(
+  event: PricedEvent,
+  { currency = "USD", locale, at }: PriceFormatOptions = {}
+) {
+  if (event.tickets?.length) {
+    const tier = cheapestTier(event.tickets, { at });
+
+    return tier
+      ? `from ${formatMoney(tier.price, locale)} (${tier.name})`
+      : "sold out";
+  }
+
+  const price = parsePrice(event.price, currency);
+  return price ? formatMoney(price, locale) : "price on request";
+}
+
+// Example: the conference from chapter 4 with an early bird, a student and a group ticket
+const script19Tickets: TicketTier[] = [
+  {
+    kind: "earlyBird",
+    name: "Early bird",
+    price: money(99, "EUR"),
+    availableUntil: new Date("2023-04-01"),
+  },
+  { kind: "regular", name: "Regular", price: money(129, "EUR") },
+  { kind: "student", name: "Student", price: money(49, "EUR") },
+  { kind: "group", name: "Team", price: money(109, "EUR"), minimumSize: 5 },
+];
+
+formatEventPrice({ ...script19, tickets: script19Tickets });
+ticketTotal(script19Tickets, { groupSize: 6 });
@@ -0,0 +1,216 @@
+// ! Querying events
+
+// `filterByEvent` and `filterByEvent2` never return anything from the filter callback, so they always give back `[]`,
+// and kind is the only thing they can filter on anyway. `queryEvents` chains filters, sorting and paging instead, and
+// filtering by kind narrows the result the same way `Extract` does.
+
+type EventSortField = "date" | "title" | "price" | "seatsLeft" | "capacity";
+
+// Same shape as the sort order of a search query (search-query.ts)
+type EventSortOrder = SortOrder & { by: EventSortField };
+
+type PriceRange = {
+  min?: number;
+  max?: number;
+};
+
+type EventQuery<Event extends TechEventNewer> = {
+  // ofKind("Conference", "Meetup") leaves an EventQuery<ConferenceNew | MeetupNew>
+  ofKind<Kind extends Event["kind"]>(
+    ...kinds: Kind[]
+  ): EventQuery<Extract<Event, { kind: Kind }>>;
+  // Both ends are inclusive, leave one out to only look in one direction
+  between(from?: Date, to?: Date): EventQuery<Event>;
+  // Events without a price we can read are left out
+  priced(range: PriceRange): EventQuery<Event>;
+  free(): EventQuery<Event>;
+  // Case insensitive. Events without a location (Webinars) never match, so they're gone from the type too.
+  locatedIn(text: string): EventQuery<Extract<Event, { location: string }>>;
+  withSeatsLeft(min?: number): EventQuery<Event>;
+  // The first key decides, the next ones break ties. A plain field sorts ascending.
+  sortBy(...keys: Array<EventSortField | EventSortOrder>): EventQuery<Event>;
+  limit(count: number): EventQuery<Event>;
+  offset(count: number): EventQuery<Event>;
+  toArray(): Event[];
+};
+
+type EventQueryState = {
+  filters: Array<(event: TechEventNewer) => boolean>;
+  sort: EventSortOrder[];
+  offset: number;
+  limit: number;
+};
+
+// Meetups have their price as a string, i.e. "€10" or "Free". Webinars and Hackathons without a price are free.
+// The currency is ignored here, events-pricing.ts has the details.
+function eventPrice(event: TechEventNewer): number | undefined {
+  const price = parsePrice(event.price);
+  return price && toMajorUnits(price);
+}
+
+function seatsLeft(event: TechEventNewer) {
+  return Math.max(0, event.capacity - event.rsvp);
+}
+
+// Missing values (prices we can't read) always go last, no matter the direction
+function compareEvents(
+  a: TechEventNewer,
+  b: TechEventNewer,
+  { by, direction }: EventSortOrder
+) {
+  const sign = direction === "asc" ? 1 : -1;
+
+  switch (by) {
+    case "date":
+      return sign * (a.date.getTime() - b.date.getTime());
+    case "title":
+      return sign * a.title.localeCompare(b.title);
+    case "price": {
+      const left = eventPrice(a);
+      const right = eventPrice(b);
+
+      if (left === undefined || right === undefined) {
+        return Number(left === undefined) - Number(right === undefined);
+      }
+
+      return sign * (left - right);
+    }
+    case "seatsLeft":
+      return sign * (seatsLeft(a) - seatsLeft(b));
+    case "capacity":
+      return sign * (a.capacity - b.capacity);
+    default:
+      throw neverError("Unknown sort field", by);
+  }
+}
+
+function createEventQuery<Event extends TechEventNewer>(
+  list: TechEventNewer[],
+  state: EventQueryState
+): EventQuery<Event> {
+  // Every step returns a new query, so a query can be stored and reused as the start of several others
+  function next<Next extends TechEventNewer = Event>(
+    changes: Partial<EventQueryState>
+  ) {
+    return createEventQuery<Next>(list, { ...state, ...changes });
+  }
+
+  function where<Next extends TechEventNewer = Event>(
+    filter: (event: TechEventNewer) => boolean
+  ) {
+    return next<Next>({ filters: [...state.filters, filter] });
+  }
+
+  return {
+    ofKind<Kind extends Event["kind"]>(...kinds: Kind[]) {
+      return where<Extract<Event, { kind: Kind }>>((event) =>
+        kinds.some((kind) => kind === event.kind)
+      );
+    },
+
+    between(from, to) {
+      return where(
+        (event) =>
+          (!from || event.date >= from) && (!to || event.date <= to)
+      );
+    },
+
+    priced({ min = 0, max = Infinity }) {
+      return where((event) => {
+        const price = eventPrice(event);
+        return price !== undefined && price >= min && price <= max;
+      });
+    },
+
+    free() {
+      return where((event) => eventPrice(event) === 0);
+    },
+
+    locatedIn(text) {
+      const needle = text.trim().toLowerCase();
+
+      return where<Extract<Event, { location: string }>>(
+        (event) =>
+          "location" in event &&
+          event.location.toLowerCase().includes(needle)
+      );
+    },
+
+    withSeatsLeft(min = 1) {
+      return where((event) => seatsLeft(event) >= min);
+    },
+
+    sortBy(...keys) {
+      return next({
+        sort: keys.map((key) =>
+          typeof key === "string" ? { by: key, direction: "asc" } : key
+        ),
+      });
+    },
+
+    limit(count) {
+      return next({ limit: count });
+    },
+
+    offset(count) {
+      return next({ offset: count });
+    },
+
+    toArray() {
+      const matches = list.filter((event) =>
+        state.filters.every((filter) => filter(event))
+      );
+
+      if (state.sort.length) {
+        matches.sort((a, b) => {
+          for (const order of state.sort) {
+            const result = compareEvents(a, b, order);
+
+            if (result !== 0) {
+              return result;
+            }
+          }
+
+          return 0;
+        });
+      }
+
+      // The filters made sure only Events are left, TypeScript just can't tell from a list of predicates
+      return matches.slice(
+        state.offset,
+        state.offset + state.limit
+      ) as Event[];
+    },
+  };
+}
+
+function queryEvents<Event extends TechEventNewer>(
+  list: Event[]
+): EventQuery<Event> {
+  return createEventQuery<Event>(list, {
+    filters: [],
+    sort: [],
+    offset: 0,
+    limit: Infinity,
+  });
+}
+
+// Example: the next three cheap conferences and meetups in Amsterdam that still have room
+const nextInAmsterdam = queryEvents(eventList)
+  .ofKind("Conference", "Meetup")
+  .locatedIn("amsterdam")
+  .between(new Date())
+  .priced({ max: 150 })
+  .withSeatsLeft()
+  .sortBy("date", { by: "price", direction: "asc" })
+  .limit(3)
+  .toArray();
+
+// Free events, soonest first, ten per page
+const freeEventsPage = (page: number) =>
+  queryEvents(eventList)
+    .free()
+    .sortBy("date")
+    .offset(page * 10)
+    .limit(10)
+    .toArray();
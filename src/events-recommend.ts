@@ -0,0 +1,342 @@
+// ! Recommendations
+
+// `userEvents` tells us what someone watched, RSVP'd to and attended. That's enough to guess what else they'd like:
+// `recommendEvents` scores upcoming events on the kinds of event they go to, speakers they've seen, what the talks are
+// about, where they usually go and what they usually pay. Every recommendation says why, in words.
+
+type RecommendationSignal =
+  | "kind"
+  | "speaker"
+  | "keywords"
+  | "location"
+  | "price";
+
+type RecommendationReason = {
+  signal: RecommendationSignal;
+  // Already multiplied by the weight of the signal
+  score: number;
+  // "you went to 3 Meetups"
+  text: string;
+};
+
+type Recommendation = {
+  event: TechEventNewer;
+  score: number;
+  // The strongest reason first
+  reasons: RecommendationReason[];
+  // The one or two strongest reasons as a sentence
+  reason: string;
+};
+
+type RecommendationOptions = {
+  // Only events after this are recommended. Defaults to now.
+  now?: Date;
+  // Defaults to 5
+  limit?: number;
+  // How much each signal counts. Every signal scores between 0 and 1 before the weight. Missing ones default to 1.
+  weights?: Partial<Record<RecommendationSignal, number>>;
+};
+
+// Attending says more about someone than watching does
+const historyWeights: Record<
+  Exclude<UserEventCategory, "signedOff">,
+  number
+> = {
+  attended: 3,
+  rsvp: 2,
+  watching: 1,
+};
+
+// Words that show up in every talk and say nothing about it
+const keywordStopWords = new Set(
+  ["the", "and", "for", "with", "how", "what", "why", "you", "your"].map(stem)
+);
+
+// Events from the repository have an id. Everything else is the same event if the kind, title and date are.
+function eventKey(event: TechEventNewer | StoredEvent) {
+  return "id" in event
+    ? event.id
+    : `${event.kind}:${event.title}:${event.date.getTime()}`;
+}
+
+function eventKeywords(event: TechEventNewer) {
+  const text = [
+    event.title,
+    ...eventTalks(event).map((talk) => `${talk.title} ${talk.abstract}`),
+  ].join(" ");
+
+  // The stems are compared, the first word we saw for a stem is what ends up in the reason
+  const keywords = new Map<string, string>();
+
+  tokenizeText(text).forEach(({ stem, start, end }) => {
+    if (stem.length > 2 && !keywordStopWords.has(stem) && !keywords.has(stem)) {
+      keywords.set(stem, text.slice(start, end).toLowerCase());
+    }
+  });
+
+  return keywords;
+}
+
+function countBy<Key>(keys: Key[], weights: number[]) {
+  const counts = new Map<Key, number>();
+
+  keys.forEach((key, i) => {
+    counts.set(key, (counts.get(key) ?? 0) + weights[i]);
+  });
+
+  return counts;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+// Everything we know about the user, worked out once for all of the candidates
+function createTasteProfile(history: userEvents) {
+  const seen = (["attended", "rsvp", "watching"] as const).flatMap((status) =>
+    history[status].map((event) => ({ event, status }))
+  );
+  const weights = seen.map(({ status }) => historyWeights[status]);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const speakers = new Set(
+    seen.flatMap(({ event }) => eventTalks(event).map((talk) => talk.speaker))
+  );
+
+  const keywords = new Map<string, number>();
+  seen.forEach(({ event }, i) => {
+    eventKeywords(event).forEach((_, stem) => {
+      keywords.set(stem, (keywords.get(stem) ?? 0) + weights[i]);
+    });
+  });
+
+  // Only what someone actually paid for tells us what they're willing to pay
+  const paid = seen
+    .filter(({ status }) => status !== "watching")
+    .map(({ event }) => eventPrice(event))
+    .filter((price): price is number => price !== undefined);
+
+  return {
+    total,
+    kinds: countBy(
+      seen.map(({ event }) => event.kind),
+      weights
+    ),
+    // How many of each kind they went to, for the reason
+    attendedKinds: countBy(
+      history.attended.map((event) => event.kind),
+      history.attended.map(() => 1)
+    ),
+    speakers,
+    keywords,
+    locations: countBy(
+      seen.map(({ event }) => eventLocation(event).toLowerCase()),
+      weights
+    ),
+    typicalPrice: paid.length ? median(paid) : undefined,
+    // Signed off means not interested, and the ones they already know about don't need recommending
+    excluded: new Set(
+      [...seen.map(({ event }) => event), ...history.signedOff].map(eventKey)
+    ),
+  };
+}
+
+type TasteProfile = ReturnType<typeof createTasteProfile>;
+
+// ? Signals. Each one gives back a score between 0 and 1 and the sentence explaining it, or nothing at all.
+
+type SignalResult = { score: number; text: string } | undefined;
+
+function scoreKind(event: TechEventNewer, profile: TasteProfile): SignalResult {
+  const affinity = profile.kinds.get(event.kind) ?? 0;
+
+  if (!affinity || !profile.total) {
+    return undefined;
+  }
+
+  const attended = profile.attendedKinds.get(event.kind) ?? 0;
+
+  return {
+    score: affinity / profile.total,
+    text: attended
+      ? `you went to ${plural(attended, event.kind)}`
+      : `you're interested in ${event.kind}s`,
+  };
+}
+
+function scoreSpeakers(
+  event: TechEventNewer,
+  profile: TasteProfile
+): SignalResult {
+  const talks = eventTalks(event);
+  const known = Array.from(
+    new Set(
+      talks
+        .map((talk) => talk.speaker)
+        .filter((speaker) => profile.speakers.has(speaker))
+    )
+  );
+
+  if (!known.length) {
+    return undefined;
+  }
+
+  return {
+    // A single familiar face already counts for a lot
+    score: Math.min(1, known.length / Math.min(2, talks.length)),
+    text:
+      known.length === 1
+        ? `${known[0]} is speaking, you've seen them before`
+        : `${known.slice(0, -1).join(", ")} and ${
+            known[known.length - 1]
+          } are speaking`,
+  };
+}
+
+function scoreKeywords(
+  event: TechEventNewer,
+  profile: TasteProfile
+): SignalResult {
+  const keywords = eventKeywords(event);
+  const shared = Array.from(keywords)
+    .map(([stem, word]) => ({ word, weight: profile.keywords.get(stem) ?? 0 }))
+    .filter(({ weight }) => weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  if (!shared.length) {
+    return undefined;
+  }
+
+  return {
+    // A talk or two on something familiar is already interesting, it doesn't have to be all of them
+    score: Math.sqrt(shared.length / keywords.size),
+    text: `it's about ${shared
+      .slice(0, 3)
+      .map(({ word }) => word)
+      .join(", ")}`,
+  };
+}
+
+function scoreLocation(
+  event: TechEventNewer,
+  profile: TasteProfile
+): SignalResult {
+  const location = eventLocation(event);
+  const visits = profile.locations.get(location.toLowerCase()) ?? 0;
+
+  if (!visits || !profile.total) {
+    return undefined;
+  }
+
+  return {
+    score: visits / profile.total,
+    text:
+      location === "online"
+        ? "it's online, like a lot of what you go to"
+        : `it's in ${location}, where you often go`,
+  };
+}
+
+function scorePrice(
+  event: TechEventNewer,
+  profile: TasteProfile
+): SignalResult {
+  const price = eventPrice(event);
+
+  if (price === 0) {
+    return { score: 1, text: "it's free" };
+  }
+
+  if (price === undefined || profile.typicalPrice === undefined) {
+    return undefined;
+  }
+
+  // Anything up to what they usually pay is fine, above that it gets less likely the more it costs
+  if (price <= profile.typicalPrice) {
+    return {
+      score: 1,
+      text: `it costs ${formatEventPrice(event)}, no more than you usually pay`,
+    };
+  }
+
+  return {
+    score: profile.typicalPrice / price,
+    text: `it costs ${formatEventPrice(event)}, more than you usually pay`,
+  };
+}
+
+const recommendationSignals: Record<
+  RecommendationSignal,
+  (event: TechEventNewer, profile: TasteProfile) => SignalResult
+> = {
+  kind: scoreKind,
+  speaker: scoreSpeakers,
+  keywords: scoreKeywords,
+  location: scoreLocation,
+  price: scorePrice,
+};
+
+function recommendEvents(
+  history: userEvents,
+  candidates: TechEventNewer[],
+  { now = new Date(), limit = 5, weights = {} }: RecommendationOptions = {}
+): Recommendation[] {
+  const profile = createTasteProfile(history);
+
+  return (
+    candidates
+      .filter(
+        (event) => event.date >= now && !profile.excluded.has(eventKey(event))
+      )
+      .map((event) => {
+        const reasons: RecommendationReason[] = [];
+
+        Object.keys(recommendationSignals).forEach((signal) => {
+          const result = recommendationSignals[signal](event, profile);
+
+          if (result) {
+            reasons.push({
+              signal,
+              score: result.score * (weights[signal] ?? 1),
+              text: result.text,
+            });
+          }
+        });
+
+        reasons.sort((a, b) => b.score - a.score);
+
+        return {
+          event,
+          score: reasons.reduce((sum, reason) => sum + reason.score, 0),
+          reasons,
+          reason: `Because ${reasons
+            .slice(0, 2)
+            .map((reason) => reason.text)
+            .join(" and ")}`,
+        };
+      })
+      // Being cheap isn't a reason to go to something you've shown no interest in
+      .filter(({ reasons }) =>
+        reasons.some((reason) => reason.signal !== "price")
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  );
+}
+
+// Example: recommendations from the attendance tracker (events-attendance.ts) for the events in the repository
+async function recommendFor(userId: UserId) {
+  const history = await attendanceTracker.userEvents(userId);
+  const upcoming = await eventRepository.list();
+
+  return recommendEvents(history, upcoming, { weights: { speaker: 1.5 } });
+}
@@ -0,0 +1,143 @@
+// ! Event kind registry
+
+// Adding Hackathon meant going through TechEventNewer, GroupedEvents, groupEvents and getEventTeaser3 by hand, and
+// it's easy to miss one. Now a kind of event is one line in EventKindRegistry plus one handler in `eventKinds`.
+// TechEventNewer, EventKind2 and the grouped types (events-group.ts) are derived from the registry, so they follow
+// along, and `eventKinds` doesn't compile until the new kind has a handler.
+
+// Interfaces merge (see chapter 2, like the Window interface), so the type of a new kind can live in its own file:
+//
+//   type Workshop = TechEventBaseNew & { kind: "Workshop"; location: string; seats: number };
+//   interface EventKindRegistry { Workshop: Workshop }
+//
+// `eventKinds` below stops compiling until it has a handler for Workshop, so that one still has to be added here.
+// The key has to be the same as the `kind` of the type.
+interface EventKindRegistry {
+  Conference: ConferenceNew;
+  Hackathon: Hackathon;
+  Meetup: MeetupNew;
+  Webinar: WebinarNew;
+}
+
+// The fields only this kind has, i.e. `location`, `price` and `talks` for a Conference
+type EventKindFields<Event extends TechEventNewer> = Omit<
+  Event,
+  keyof TechEventBaseNew | "kind"
+>;
+
+type EventKindHandler<Event extends TechEventNewer> = {
+  // Reads and checks the fields only this kind has. The shared ones are the decoder's job (events-decode.ts).
+  // Fields that aren't valid come back as undefined, with an issue saying why.
+  validate(
+    value: Record<string, unknown>,
+    path: string,
+    issues: ValidationIssue[]
+  ): { [Field in keyof EventKindFields<Event>]?: EventKindFields<Event>[Field] };
+  teaser(event: Event): string;
+  // The part of the page only this kind has. events-render.ts puts the shared parts around it.
+  render(event: Event, options: EventRenderOptions): SafeHtml;
+  // For new events, i.e. an empty form
+  defaults(): EventKindFields<Event>;
+};
+
+// ! A kind without a handler is a compile error right here
+type EventKindHandlers = {
+  [Kind in keyof EventKindRegistry]: EventKindHandler<EventKindRegistry[Kind]>;
+};
+
+const eventKinds: EventKindHandlers = {
+  Conference: {
+    validate: (value, path, issues) => ({
+      location: readString(value.location, `${path}.location`, issues),
+      price: readNumber(value.price, `${path}.price`, issues),
+      talks: readTalks(value.talks, `${path}.talks`, issues),
+    }),
+    teaser: (event) =>
+      `${event.title} Conference. Priced at ${formatEventPrice(event)}`,
+    render: renderConferenceHTML,
+    defaults: () => ({ location: "", price: 0, talks: [] }),
+  },
+
+  Hackathon: {
+    validate: (value, path, issues) => ({
+      location: readString(value.location, `${path}.location`, issues),
+      price: readOptionalNumber(value.price, `${path}.price`, issues),
+    }),
+    teaser: (event) => `${event.title} Hackathon. Hosted at ${event.location}`,
+    render: renderHackathonHTML,
+    defaults: () => ({ location: "" }),
+  },
+
+  Meetup: {
+    validate: (value, path, issues) => ({
+      location: readString(value.location, `${path}.location`, issues),
+      price: readString(value.price, `${path}.price`, issues),
+      talks: readTalks(value.talks, `${path}.talks`, issues),
+    }),
+    teaser: (event) => `${event.title} Meetup. Hosted at ${event.location}`,
+    render: renderMeetupHTML,
+    defaults: () => ({ location: "", price: "Free", talks: [] }),
+  },
+
+  Webinar: {
+    validate: (value, path, issues) => ({
+      url: readString(value.url, `${path}.url`, issues),
+      price: readOptionalNumber(value.price, `${path}.price`, issues),
+      talks: readWebinarTalk(value.talks, `${path}.talks`, issues),
+    }),
+    teaser: (event) => `${event.title} Webinar. Available online at ${event.url}`,
+    render: renderWebinarHTML,
+    defaults: () => ({
+      url: "",
+      talks: { title: "", abstract: "", speaker: "" },
+    }),
+  },
+};
+
+// The registered kinds at runtime, in the order they were registered
+const registeredEventKinds = Object.keys(eventKinds);
+
+function isEventKind(value: unknown): value is EventKind2 {
+  return registeredEventKinds.some((kind) => kind === value);
+}
+
+// `eventKinds[event.kind]` is a union of all of the handlers, and TypeScript can't tell it's the one that belongs to
+// `event`. This is the one place where we tell it.
+function eventKindHandler<Event extends TechEventNewer>(
+  event: Event
+): EventKindHandler<Event> {
+  const handler = eventKinds[event.kind];
+
+  // Only data that never went through the decoder can get here, i.e. a cast API response
+  if (!handler) {
+    throw new Error(`There's no handler for events of kind ${event.kind}`);
+  }
+
+  return handler as unknown as EventKindHandler<Event>;
+}
+
+function eventTeaser(event: TechEventNewer) {
+  return eventKindHandler(event).teaser(event);
+}
+
+// A new event of a kind, with that kind's defaults for everything that wasn't passed in
+function createEvent<Kind extends EventKind2>(
+  kind: Kind,
+  fields: TechEventBaseNew & Partial<EventKindFields<EventKindRegistry[Kind]>>
+): EventKindRegistry[Kind] {
+  const defaults = eventKinds[kind].defaults();
+
+  return { ...defaults, ...fields, kind } as EventKindRegistry[Kind];
+}
+
+// Example: a hackathon that only needs the shared fields and a location
+const hackathon = createEvent("Hackathon", {
+  title: "Hack the Planet",
+  description: "48 hours of TypeScript",
+  date: new Date("2023-09-01"),
+  capacity: 120,
+  rsvp: 0,
+  location: "Berlin",
+});
+
+eventTeaser(hackathon);
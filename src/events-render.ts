@@ -0,0 +1,114 @@
+// ! Rendering events
+
+// `getTeaserHTML` puts `event.title` and `event.description` into the page as they are, so a description with a
+// <script> in it runs, and every kind of event looks the same. Here every kind gets its own template, all of them
+// escape through the `html` tag (search-render.ts), and the registry (events-registry.ts) fails to compile when a new
+// kind of event shows up without one.
+
+type EventRenderOptions = {
+  locale?: string;
+  // Defaults to the time zone of whoever is looking
+  timeZone?: string;
+};
+
+// "Thursday, June 15, 2023 at 09:00"
+function formatEventDate(
+  date: Date,
+  { locale, timeZone }: EventRenderOptions = {}
+) {
+  return new Intl.DateTimeFormat(locale, {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  }).format(date);
+}
+
+function renderTalksHTML(talks: Talk[]): SafeHtml {
+  if (!talks.length) {
+    return html`<p class="event__talks event__talks--empty">
+      Talks will be announced soon.
+    </p>`;
+  }
+
+  return html`<ul class="event__talks">
+    ${talks.map(
+      (talk) =>
+        html`<li class="event__talk">
+          <h3>${talk.title}</h3>
+          <p class="event__speaker">${talk.speaker}</p>
+          <p>${talk.abstract}</p>
+        </li>`
+    )}
+  </ul>`;
+}
+
+// Everything all kinds of event share. The template for the kind fills in the middle.
+function renderEventFrame(
+  event: TechEventNewer,
+  details: SafeHtml,
+  options: EventRenderOptions
+): SafeHtml {
+  return html`<article class="event event--${event.kind.toLowerCase()}">
+    <header>
+      <p class="event__kind">${event.kind}</p>
+      <h2>${event.title}</h2>
+      <time datetime="${event.date.toISOString()}"
+        >${formatEventDate(event.date, options)}</time
+      >
+    </header>
+    <p class="event__description">${event.description}</p>
+    ${details}
+    <p class="event__price">
+      ${formatEventPrice(event, { locale: options.locale })}
+    </p>
+    <p class="event__seats">
+      ${seatsLeft(event)} of ${event.capacity} seats left
+    </p>
+  </article>`;
+}
+
+// ? One template per kind
+
+function renderConferenceHTML(event: ConferenceNew) {
+  return html`<p class="event__location">${event.location}</p>
+    ${renderTalksHTML(event.talks)}`;
+}
+
+function renderMeetupHTML(event: MeetupNew) {
+  return html`<p class="event__location">Hosted at ${event.location}</p>
+    ${renderTalksHTML(event.talks)}`;
+}
+
+function renderWebinarHTML(event: WebinarNew) {
+  return html`<a class="event__join" href="${safeUrl(event.url)}"
+      >Join the webinar</a
+    >
+    ${renderTalksHTML([event.talks])}`;
+}
+
+function renderHackathonHTML(event: Hackathon) {
+  return html`<p class="event__location">Hack along at ${event.location}</p>`;
+}
+
+function renderEventHTML(
+  event: TechEventNewer,
+  options: EventRenderOptions = {}
+): SafeHtml {
+  const details = eventKindHandler(event).render(event, options);
+  return renderEventFrame(event, details, options);
+}
+
+// The DOM flavour, as the list item appendToList (chapter 4) adds to #event-list
+function renderEventElement(
+  event: TechEventNewer,
+  options?: EventRenderOptions
+): HTMLLIElement {
+  const li = document.createElement("li");
+  li.classList.add("event-teaser");
+  li.append(toFragment(renderEventHTML(event, options)));
+  return li;
+}
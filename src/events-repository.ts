@@ -0,0 +1,301 @@
+// ! Event repository
+
+// Events only ever existed as `declare const eventList`, and TechEventBaseNew has nothing that identifies an event.
+// The repository gives every event an id when it's stored and keeps them in a pluggable storage backend.
+
+type EventId = string;
+
+// An event as it comes out of the repository. The id is added on top, so the chapter 4 types stay as they are.
+type StoredEvent<Event extends TechEventNewer = TechEventNewer> = Event & {
+  id: EventId;
+};
+
+// Pick one branch of the union by its kind, i.e. EventOfKind<"Webinar"> is WebinarNew
+type EventOfKind<Kind extends EventKind2> = Extract<
+  TechEventNewer,
+  { kind: Kind }
+>;
+
+// The fields that can change for one kind. The kind itself and the id can't.
+// ! A Webinar update with a `location` is a type error, because WebinarNew doesn't have one
+type EventUpdate<Kind extends EventKind2> = Partial<
+  Omit<EventOfKind<Kind>, "id" | "kind">
+>;
+
+// What `modify` makes of an event: the shared fields that change, and whatever the caller wants back
+type EventModification<Result> = {
+  changes: Partial<TechEventBaseNew>;
+  result: Result;
+};
+
+// The repository doesn't care where events live, as long as it can read and write all of them
+type EventStorage = {
+  load(): Promise<StoredEvent[]>;
+  save(events: StoredEvent[]): Promise<void>;
+};
+
+class EventRepositoryError extends Error {
+  constructor(
+    readonly kind: "not-found" | "kind-mismatch",
+    readonly id: EventId,
+    message: string
+  ) {
+    super(message);
+    this.name = "EventRepositoryError";
+  }
+}
+
+type EventRepositoryOptions = {
+  // Defaults to crypto.randomUUID
+  generateId?: () => EventId;
+};
+
+type EventRepository = {
+  create<Event extends TechEventNewer>(
+    event: Event
+  ): Promise<StoredEvent<Event>>;
+  get(id: EventId): Promise<StoredEvent | undefined>;
+  list(): Promise<StoredEvent[]>;
+  update<Kind extends EventKind2>(
+    id: EventId,
+    kind: Kind,
+    changes: EventUpdate<Kind>
+  ): Promise<StoredEvent<EventOfKind<Kind>>>;
+  remove(id: EventId): Promise<boolean>;
+  // Reads the event and writes what `change` makes of it as one operation, so no other write can get in between.
+  // `change` mustn't use the repository itself, it would wait for its own operation to finish.
+  modify<Result>(
+    id: EventId,
+    change: (event: StoredEvent) => Promise<EventModification<Result>>
+  ): Promise<Result>;
+};
+
+function createEventRepository(
+  storage: EventStorage,
+  { generateId = () => crypto.randomUUID() }: EventRepositoryOptions = {}
+): EventRepository {
+  let cache: Map<EventId, StoredEvent> | undefined;
+  // Every operation waits for the one before it, so two updates can't overwrite each other's changes
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const next = queue.then(operation);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async function events() {
+    if (!cache) {
+      cache = new Map((await storage.load()).map((event) => [event.id, event]));
+    }
+
+    return cache;
+  }
+
+  // Changes are made to a copy of the cache, which only replaces it once it's saved. A failed save leaves both the
+  // cache and the storage as they were.
+  async function persist(next: Map<EventId, StoredEvent>) {
+    await storage.save(Array.from(next.values()));
+    cache = next;
+  }
+
+  function find(current: Map<EventId, StoredEvent>, id: EventId) {
+    const event = current.get(id);
+
+    if (!event) {
+      throw new EventRepositoryError(
+        "not-found",
+        id,
+        `There is no event with id ${id}`
+      );
+    }
+
+    return event;
+  }
+
+  // Stored events are copied on the way in and out, so nobody can change them behind the repository's back. That
+  // includes the talks, so the copy has to go all the way down.
+  function copy<Event extends StoredEvent>(event: Event): Event {
+    return structuredClone(event);
+  }
+
+  // `{ title: undefined }` fits a Partial, but spreading it would wipe out a field every event needs. Leaving a field
+  // out is how an update says it doesn't change.
+  function definedChanges<Changes extends object>(changes: Changes): Changes {
+    const defined = { ...changes };
+
+    Object.keys(defined).forEach((key) => {
+      if (defined[key] === undefined) {
+        delete defined[key];
+      }
+    });
+
+    return defined;
+  }
+
+  return {
+    create<Event extends TechEventNewer>(event: Event) {
+      return enqueue(async () => {
+        const next = new Map(await events());
+        const stored: StoredEvent = {
+          ...(event as TechEventNewer),
+          id: generateId(),
+        };
+
+        next.set(stored.id, copy(stored));
+        await persist(next);
+
+        // stored is the event we got plus an id. TypeScript can't match a generic Event against every branch of the
+        // union though, so it needs the detour through unknown.
+        return copy(stored) as unknown as StoredEvent<Event>;
+      });
+    },
+
+    get(id) {
+      return enqueue(async () => {
+        const event = (await events()).get(id);
+        return event && copy(event);
+      });
+    },
+
+    list() {
+      return enqueue(async () => Array.from((await events()).values(), copy));
+    },
+
+    update<Kind extends EventKind2>(
+      id: EventId,
+      kind: Kind,
+      changes: EventUpdate<Kind>
+    ) {
+      return enqueue(async () => {
+        const next = new Map(await events());
+        const existing = find(next, id);
+
+        if (existing.kind !== kind) {
+          throw new EventRepositoryError(
+            "kind-mismatch",
+            id,
+            `Event ${id} is a ${existing.kind}, not a ${kind}`
+          );
+        }
+
+        // The kind check above is what makes this safe, TypeScript can't follow it through the generic
+        const updated = {
+          ...existing,
+          ...definedChanges(changes),
+          id,
+          kind,
+        } as StoredEvent<EventOfKind<Kind>>;
+
+        next.set(id, copy(updated));
+        await persist(next);
+
+        return copy(updated);
+      });
+    },
+
+    remove(id) {
+      return enqueue(async () => {
+        const next = new Map(await events());
+        const removed = next.delete(id);
+
+        if (removed) {
+          await persist(next);
+        }
+
+        return removed;
+      });
+    },
+
+    modify(id, change) {
+      return enqueue(async () => {
+        const next = new Map(await events());
+        const existing = find(next, id);
+        const { changes, result } = await change(copy(existing));
+        const defined = definedChanges(changes);
+
+        if (Object.keys(defined).length) {
+          next.set(id, copy({ ...existing, ...defined, id }));
+          await persist(next);
+        }
+
+        return result;
+      });
+    },
+  };
+}
+
+// ? Storage backends
+
+// In memory, for now and for tests
+function createMemoryStorage(initial: StoredEvent[] = []): EventStorage {
+  let events = initial;
+
+  return {
+    async load() {
+      return events;
+    },
+    async save(next) {
+      events = next;
+    },
+  };
+}
+
+// JSON stores dates as strings, so they have to be turned back into Date objects when we read them
+function reviveStoredEvents(json: string): StoredEvent[] {
+  const raw: StoredEvent[] = JSON.parse(json);
+  return raw.map((event) => ({ ...event, date: new Date(event.date) }));
+}
+
+// The text of a JSON file, or undefined when there is no file yet. Only works in Node, like everything that uses it.
+async function readJsonFile(path: string): Promise<string | undefined> {
+  const { readFile } = await import("fs/promises");
+
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+async function writeJsonFile(path: string, value: unknown) {
+  const { writeFile, rename } = await import("fs/promises");
+
+  // Write next to the real file and swap it in, so a crash halfway never leaves half a file behind
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, JSON.stringify(value, null, 2), "utf8");
+  await rename(temporary, path);
+}
+
+// A JSON file on disk, for local development
+function createJsonFileStorage(path: string): EventStorage {
+  return {
+    async load() {
+      const json = await readJsonFile(path);
+
+      // No file yet means no events yet
+      return json === undefined ? [] : reviveStoredEvents(json);
+    },
+
+    save(events) {
+      return writeJsonFile(path, events);
+    },
+  };
+}
+
+// Example: the same repository works on top of either backend
+const eventRepository = createEventRepository(
+  isDevelopment ? createJsonFileStorage("events.json") : createMemoryStorage()
+);
+
+async function renameWebinar(id: EventId) {
+  // The changes are checked against WebinarNew
+  await eventRepository.update(id, "Webinar", { title: "TypeScript 50" });
+
+  // @ts-expect-error
+  await eventRepository.update(id, "Webinar", { location: "Amsterdam" });
+}
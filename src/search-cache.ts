@@ -0,0 +1,203 @@
+// ! Caching search results
+
+// People search for the same things over and over again. `withCache` wraps any `searchFn` and returns another
+// `searchFn`, so it can go anywhere a search function goes (displaySearch, createLiveSearch, ...).
+
+type SearchCacheOptions = {
+  // The least recently used entry is dropped once we go past this. Defaults to 100.
+  maxEntries?: number;
+  // How long an entry stays fresh. Defaults to one minute.
+  ttlMs?: number;
+  clock?: Pick<Clock, "now">;
+};
+
+type SearchCacheStats = {
+  hits: number;
+  misses: number;
+  // Requests that piggybacked on an identical request that was already running
+  coalesced: number;
+  size: number;
+};
+
+type CachedSearchFn = searchFn & {
+  // Without arguments the whole cache is cleared
+  invalidate(query?: string, tags?: string[]): void;
+  stats(): SearchCacheStats;
+};
+
+type SearchCacheEntry = {
+  results: Result[];
+  expiresAt: number;
+};
+
+// A request that is still running, shared by everyone who asked for the same thing
+type PendingSearch = {
+  promise: Promise<Result[]>;
+  controller: AbortController;
+  waiting: number;
+};
+
+// "Rock  Climbing " with ["Outdoors", "fitness"] and "rock climbing" with ["fitness", "outdoors"] are the same search
+function searchCacheKey(query: string, tags: string[] = []) {
+  const normalize = (value: string) =>
+    value.trim().replace(/\s+/g, " ").toLowerCase();
+  const normalizedTags = Array.from(new Set(tags.map(normalize)))
+    .filter(Boolean)
+    .sort();
+
+  return JSON.stringify([normalize(query), normalizedTags]);
+}
+
+// Rejects as soon as the caller's own signal aborts, without touching the shared request
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+function withCache(
+  search: searchFn,
+  {
+    maxEntries = 100,
+    ttlMs = 60_000,
+    clock = systemClock,
+  }: SearchCacheOptions = {}
+): CachedSearchFn {
+  // A Map remembers insertion order, so the first key is always the least recently used one
+  const entries = new Map<string, SearchCacheEntry>();
+  const pending = new Map<string, PendingSearch>();
+  const counts = { hits: 0, misses: 0, coalesced: 0 };
+
+  function remember(key: string, results: Result[]) {
+    entries.delete(key);
+    entries.set(key, { results, expiresAt: clock.now() + ttlMs });
+
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  }
+
+  function lookup(key: string) {
+    const entry = entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= clock.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+
+    // Move it to the back of the line, it was just used
+    entries.delete(key);
+    entries.set(key, entry);
+
+    return entry.results;
+  }
+
+  function start(key: string, query: string, tags?: string[]) {
+    const controller = new AbortController();
+    const promise = search(query, tags, { signal: controller.signal });
+    const request: PendingSearch = { controller, waiting: 0, promise };
+
+    // If the entry was invalidated while the request was running, its results are already stale
+    const isCurrent = () => pending.get(key) === request;
+
+    promise.then(
+      (results) => {
+        if (isCurrent()) {
+          remember(key, results);
+          pending.delete(key);
+        }
+      },
+      // Errors aren't cached, the next caller tries again
+      () => {
+        if (isCurrent()) {
+          pending.delete(key);
+        }
+      }
+    );
+
+    pending.set(key, request);
+    return request;
+  }
+
+  const cached = async function (
+    query: string,
+    tags?: string[],
+    options: SearchOptions = {}
+  ) {
+    const key = searchCacheKey(query, tags);
+    const hit = lookup(key);
+
+    if (hit) {
+      counts.hits++;
+      return hit.slice();
+    }
+
+    let request = pending.get(key);
+
+    if (request) {
+      counts.coalesced++;
+    } else {
+      counts.misses++;
+      request = start(key, query, tags);
+    }
+
+    const shared = request;
+    shared.waiting++;
+
+    try {
+      return (await abortable(shared.promise, options.signal)).slice();
+    } finally {
+      shared.waiting--;
+
+      // Only cancel the real request once nobody is waiting for it anymore
+      if (shared.waiting === 0 && options.signal?.aborted) {
+        shared.controller.abort(options.signal.reason);
+
+        // Nobody should join a request that is being cancelled
+        if (pending.get(key) === shared) {
+          pending.delete(key);
+        }
+      }
+    }
+  };
+
+  return Object.assign(cached, {
+    invalidate(query?: string, tags?: string[]) {
+      if (typeof query === "undefined") {
+        entries.clear();
+        pending.clear();
+        return;
+      }
+
+      const key = searchCacheKey(query, tags);
+      entries.delete(key);
+      pending.delete(key);
+    },
+
+    stats() {
+      return { ...counts, size: entries.size };
+    },
+  });
+}
+
+// Example: a cached search3 still fits anywhere a searchFn does
+const cachedSearch = withCache(search3, { ttlMs: 5 * 60_000 });
+
+displaySearch("search-input", "search-results", cachedSearch);
@@ -0,0 +1,261 @@
+// ! Search client
+
+// Every search function in chapter 3 used to call the global `fetch` against a hard-coded URL. The client below takes the
+// base URL and the transport as arguments, so the same code can talk to production, staging or an in-memory fake.
+
+// The transport only needs the bits of a Response we actually use. The global `fetch` satisfies this shape as is.
+type SearchResponse = {
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+};
+
+type SearchRequestInit = {
+  signal?: AbortSignal;
+};
+
+type SearchTransport = (
+  url: string,
+  init?: SearchRequestInit
+) => Promise<SearchResponse>;
+
+type SearchClientOptions = {
+  baseUrl: string;
+  // Defaults to the global fetch
+  transport?: SearchTransport;
+  // Give up on a request after this long. No timeout by default.
+  timeoutMs?: number;
+  // Retries network errors, timeouts and 5xx responses (search-errors.ts). No retries by default.
+  retry?: RetryPolicy;
+};
+
+// Every method rejects with a SearchFailure (search-errors.ts), never with a raw fetch or JSON error
+type SearchClient = {
+  search: searchFn;
+  // The full query: pagination, sorting and filters on top of the query and tags
+  find(query: SearchQuery, options?: SearchOptions): Promise<Result[]>;
+  polling(term: string, options?: SearchOptions): Promise<PollingResults>;
+  // Results plus tag counts, and tag/term completion (search-facets.ts)
+  faceted: FacetedSearchFn;
+  suggest: SuggestFn;
+  // Any other endpoint of the same API, i.e. "events". The body isn't validated, that's up to the caller.
+  json(path: string, options?: SearchOptions): Promise<unknown>;
+};
+
+// * Reads the global `fetch` lazily so it can still be swapped out after the client is created
+const fetchTransport: SearchTransport = (url, init) => fetch(url, init);
+
+function createSearchClient({
+  baseUrl,
+  transport = fetchTransport,
+  timeoutMs,
+  retry = { retries: 0 },
+}: SearchClientOptions): SearchClient {
+  // Strip trailing slashes so "https://example.com/api/" and "https://example.com/api" behave the same
+  const root = baseUrl.replace(/\/+$/, "");
+
+  function assembleUrl(path: string, query: SearchQuery) {
+    return `${root}/${path}${buildQueryString(query)}`;
+  }
+
+  // One attempt: fetch, check the status, read the body and validate it. Each step fails with its own kind of error.
+  async function request<T>(
+    url: string,
+    parse: (body: unknown) => T,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    let timedOut = false;
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const timer =
+      typeof timeoutMs === "undefined"
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs);
+
+    // The timer stays armed until the body has been read, so both the request and the body read can be cut short
+    function abortFailure() {
+      if (timedOut) {
+        return new SearchFailure({
+          kind: "timeout",
+          message: `The search took longer than ${timeoutMs}ms`,
+          timeoutMs: timeoutMs ?? 0,
+        });
+      }
+
+      if (controller.signal.aborted) {
+        return new SearchFailure({
+          kind: "aborted",
+          message: "The search was cancelled",
+        });
+      }
+
+      return undefined;
+    }
+
+    // Not every transport listens to the signal, so the request and the body read also race the abort itself
+    const cancelled = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener(
+        "abort",
+        () => reject(controller.signal.reason),
+        { once: true }
+      );
+    });
+    // Once the body is read nobody is racing it anymore
+    cancelled.catch(() => undefined);
+
+    try {
+      if (signal?.aborted) {
+        throw new SearchFailure({
+          kind: "aborted",
+          message: "The search was cancelled",
+        });
+      }
+
+      let res: SearchResponse;
+
+      try {
+        res = await Promise.race([
+          transport(url, { signal: controller.signal }),
+          cancelled,
+        ]);
+      } catch (error) {
+        throw abortFailure() ??
+          new SearchFailure({
+            kind: "network",
+            message: error instanceof Error ? error.message : String(error),
+            cause: error,
+          });
+      }
+
+      if (!res.ok) {
+        throw new SearchFailure({
+          kind: "http",
+          message: `The search service responded with ${res.status}`,
+          status: res.status,
+        });
+      }
+
+      let body: unknown;
+
+      try {
+        body = await Promise.race([res.json(), cancelled]);
+      } catch (error) {
+        throw abortFailure() ??
+          new SearchFailure({
+            kind: "parse",
+            message: "The search response is not valid JSON",
+            cause: error,
+          });
+      }
+
+      // parse throws a SearchValidationError (search-validate.ts), which toSearchError turns into a "validation" error
+      return parse(body);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  function send<T>(
+    url: string,
+    parse: (body: unknown) => T,
+    options: SearchOptions = {}
+  ) {
+    return retrying(
+      () => request(url, parse, options.signal),
+      retry,
+      options.signal
+    );
+  }
+
+  function find(query: SearchQuery, options?: SearchOptions) {
+    return send(assembleUrl("search", query), parseResults, options);
+  }
+
+  return {
+    find,
+
+    search(query, tags, options) {
+      return find({ query, tags }, options);
+    },
+
+    polling(term, options) {
+      const url = assembleUrl("polling", { query: term });
+      return send(url, parsePollingResults, options);
+    },
+
+    faceted(query, tags, options) {
+      const url = assembleUrl("search/faceted", { query, tags });
+      return send(url, parseFacetedResults, options);
+    },
+
+    suggest(prefix, tags, options) {
+      const url = assembleUrl("suggest", { query: prefix, tags });
+      return send(url, parseSuggestions, options);
+    },
+
+    json(path, options) {
+      const url = `${root}/${path.replace(/^\/+/, "")}`;
+      return send(url, (body) => body, options);
+    },
+  };
+}
+
+// ? How do we test without a network? We hand the client a transport that answers from memory.
+
+// Routes are keyed by pathname, i.e. "/api/search". The handler gets the full URL so it can read the query string.
+type MemoryRoute = (url: URL) => unknown | Promise<unknown>;
+
+function createMemoryTransport(
+  routes: Record<string, MemoryRoute>
+): SearchTransport {
+  return async (url, init = {}) => {
+    if (init.signal?.aborted) {
+      throw new DOMException("The request was aborted", "AbortError");
+    }
+
+    const parsed = new URL(url);
+    const route = routes[parsed.pathname];
+
+    if (!route) {
+      return {
+        ok: false,
+        status: 404,
+        json: async () => ({ message: `No route for ${parsed.pathname}` }),
+      };
+    }
+
+    // Round trip through JSON so callers can't hold on to (or mutate) the fake's own objects
+    const body = JSON.stringify(await route(parsed));
+
+    return {
+      ok: true,
+      status: 200,
+      json: async () => JSON.parse(body),
+    };
+  };
+}
+
+// The client the chapter 3 examples use
+const searchClient = createSearchClient({ baseUrl: "https://example.com/api" });
+
+// Pointing the same code at a fake backend is just a different transport
+const offlineSearchClient = createSearchClient({
+  baseUrl: "https://search.test/api",
+  transport: createMemoryTransport({
+    "/api/search": (url) => [
+      {
+        title: `Results for ${url.searchParams.get("query")}`,
+        url: "https://search.test/results",
+        abstract: "Served from memory",
+      },
+    ],
+    "/api/polling": () => ({ results: [], complete: true }),
+  }),
+});
@@ -0,0 +1,144 @@
+// ! Search errors
+
+// Until now a 500 was treated like any other response and a failed `fetch` rejected with whatever the browser threw.
+// Every way a search can fail is now one branch of the SearchError union, and the search functions always reject with
+// a SearchFailure carrying one of them.
+
+type SearchError =
+  | { kind: "network"; message: string; cause: unknown }
+  | { kind: "http"; message: string; status: number }
+  | { kind: "parse"; message: string; cause: unknown }
+  | { kind: "validation"; message: string; issues: ValidationIssue[] }
+  | { kind: "aborted"; message: string }
+  | { kind: "timeout"; message: string; timeoutMs: number };
+
+type SearchErrorKind = SearchError["kind"];
+
+// Rejecting with an Error subclass keeps the stack trace, the union lives on `error`
+class SearchFailure extends Error {
+  constructor(readonly error: SearchError) {
+    super(error.message);
+    this.name = "SearchFailure";
+  }
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+// Turns anything a search function might reject with into a SearchError
+function toSearchError(error: unknown): SearchError {
+  if (error instanceof SearchFailure) {
+    return error.error;
+  }
+
+  if (error instanceof SearchValidationError) {
+    return { kind: "validation", message: error.message, issues: error.issues };
+  }
+
+  if (isAbortError(error)) {
+    return { kind: "aborted", message: "The search was cancelled" };
+  }
+
+  return {
+    kind: "network",
+    message: error instanceof Error ? error.message : String(error),
+    cause: error,
+  };
+}
+
+// The switch has to handle every kind, neverError (Lesson 27) makes sure of it
+function describeSearchError(error: SearchError): string {
+  switch (error.kind) {
+    case "network":
+      return "We couldn't reach the search service. Check your connection and try again.";
+    case "http":
+      return error.status >= 500
+        ? "The search service is having problems. Please try again later."
+        : `The search request was rejected (${error.status}).`;
+    case "parse":
+      return "The search service sent a response we couldn't read.";
+    case "validation":
+      return "The search service sent results in an unexpected format.";
+    case "aborted":
+      return "The search was cancelled.";
+    case "timeout":
+      return "The search took too long. Please try again.";
+    default:
+      throw neverError("Unknown search error", error);
+  }
+}
+
+// ? Which errors are worth another try? Anything that might go away by itself.
+function isRetryable(error: SearchError) {
+  switch (error.kind) {
+    case "network":
+    case "timeout":
+      return true;
+    case "http":
+      return error.status >= 500 || error.status === 429;
+    case "parse":
+    case "validation":
+    case "aborted":
+      return false;
+    default:
+      throw neverError("Unknown search error", error);
+  }
+}
+
+type RetryPolicy = {
+  // How many times to try again after the first attempt. Defaults to 2.
+  retries?: number;
+  // The first wait, doubled (by `factor`) for every following attempt. Defaults to 200ms.
+  baseDelayMs?: number;
+  factor?: number;
+  // Defaults to 5 seconds
+  maxDelayMs?: number;
+  // Defaults to isRetryable
+  shouldRetry?: (error: SearchError, attempt: number) => boolean;
+  clock?: Clock;
+};
+
+async function retrying<T>(
+  attempt: () => Promise<T>,
+  {
+    retries = 2,
+    baseDelayMs = 200,
+    factor = 2,
+    maxDelayMs = 5_000,
+    shouldRetry = isRetryable,
+    clock = systemClock,
+  }: RetryPolicy = {},
+  signal?: AbortSignal
+): Promise<T> {
+  let delay = baseDelayMs;
+
+  for (let tries = 0; ; tries++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const searchError = toSearchError(error);
+
+      if (tries >= retries || !shouldRetry(searchError, tries + 1)) {
+        throw new SearchFailure(searchError);
+      }
+    }
+
+    try {
+      await clock.sleep(delay, signal);
+    } catch {
+      throw new SearchFailure({
+        kind: "aborted",
+        message: "The search was cancelled",
+      });
+    }
+
+    delay = Math.min(delay * factor, maxDelayMs);
+  }
+}
+
+// Same idea as withCache: wrap a searchFn, get a searchFn back
+function withRetry(search: searchFn, policy?: RetryPolicy): searchFn {
+  return (query, tags, options = {}) =>
+    retrying(() => search(query, tags, options), policy, options.signal);
+}
@@ -0,0 +1,270 @@
+// ! Facets and suggestions
+
+// Tags used to be something the user had to know in advance. Faceted search returns how many results carry each tag
+// next to the results, and suggestions complete tags and search terms from the first few letters.
+
+type TagFacet = {
+  tag: string;
+  count: number;
+};
+
+type FacetedResults = {
+  results: Result[];
+  // Sorted by count, the most common tag first
+  facets: TagFacet[];
+};
+
+type Suggestion = {
+  kind: "tag" | "term";
+  value: string;
+  // How many documents contain it
+  count: number;
+};
+
+// Shaped like a searchFn, so createLiveSearch (search-live.ts) can debounce and cancel it too.
+// The tags are the ones already picked, they aren't suggested again.
+type SuggestFn = (
+  prefix: string,
+  tags?: string[],
+  options?: SearchOptions
+) => Promise<Suggestion[]>;
+
+type FacetedSearchFn = (
+  query: string,
+  tags?: string[],
+  options?: SearchOptions
+) => Promise<FacetedResults>;
+
+type LocalFacetsOptions = {
+  // Results per search. Defaults to 20.
+  resultLimit?: number;
+  // Suggestions per prefix. Defaults to 8.
+  suggestionLimit?: number;
+};
+
+function countFacets(tagLists: string[][]): TagFacet[] {
+  const counts = new Map<string, number>();
+
+  tagLists.forEach((tags) => {
+    // A document with the same tag twice still only counts once
+    new Set(tags.map((tag) => tag.toLowerCase())).forEach((tag) => {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+// A sorted list of words, so every word with a prefix sits in one block we can find with a binary search
+type PrefixIndex = {
+  words: string[];
+  counts: Map<string, number>;
+};
+
+function createPrefixIndex(wordLists: string[][]): PrefixIndex {
+  const counts = new Map<string, number>();
+
+  wordLists.forEach((words) => {
+    new Set(words).forEach((word) => {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    });
+  });
+
+  return { words: Array.from(counts.keys()).sort(), counts };
+}
+
+function findByPrefix({ words, counts }: PrefixIndex, prefix: string) {
+  let low = 0;
+  let high = words.length;
+
+  // The first word that isn't smaller than the prefix
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+
+    if (words[middle] < prefix) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const matches: { word: string; count: number }[] = [];
+
+  for (let i = low; i < words.length && words[i].startsWith(prefix); i++) {
+    matches.push({ word: words[i], count: counts.get(words[i]) ?? 0 });
+  }
+
+  return matches;
+}
+
+// ? The in-memory flavour, on top of the local search engine (search-local.ts)
+function createLocalFacets(
+  corpus: LocalDocument[],
+  { resultLimit = 20, suggestionLimit = 8 }: LocalFacetsOptions = {}
+): { search: FacetedSearchFn; suggest: SuggestFn } {
+  // Facets are counted over every match, not only the page we hand back
+  const engine = createLocalSearch(corpus, { limit: Infinity });
+  const tagsByUrl = new Map(
+    corpus.map((document) => [document.url, document.tags ?? []])
+  );
+
+  const tagIndex = createPrefixIndex(
+    corpus.map((document) =>
+      (document.tags ?? []).map((tag) => tag.toLowerCase())
+    )
+  );
+  const termIndex = createPrefixIndex(
+    corpus.map((document) =>
+      (document.title + " " + document.abstract)
+        .toLowerCase()
+        .match(WORD_PATTERN) ?? []
+    )
+  );
+
+  return {
+    async search(query, tags, options) {
+      const matches = await engine(query, tags, options);
+
+      return {
+        results: matches.slice(0, resultLimit),
+        facets: countFacets(
+          matches.map((result) => tagsByUrl.get(result.url) ?? [])
+        ),
+      };
+    },
+
+    async suggest(prefix, tags = [], options = {}) {
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
+      }
+
+      const picked = new Set(tags.map((tag) => tag.toLowerCase()));
+      const word = prefix.trim().toLowerCase();
+
+      // "tag:out" only asks for tags
+      const onlyTags = word.startsWith(TAG_PREFIX);
+      const tagPrefix = onlyTags ? word.slice(TAG_PREFIX.length) : word;
+
+      if (!tagPrefix) {
+        return [];
+      }
+
+      const tagSuggestions: Suggestion[] = findByPrefix(tagIndex, tagPrefix)
+        .filter(({ word }) => !picked.has(word))
+        .map(({ word, count }) => ({ kind: "tag", value: word, count }));
+
+      const termSuggestions: Suggestion[] = onlyTags
+        ? []
+        : findByPrefix(termIndex, word).map(({ word, count }) => ({
+            kind: "term",
+            value: word,
+            count,
+          }));
+
+      // Tags first, they narrow the search down the most
+      return [
+        ...tagSuggestions.sort((a, b) => b.count - a.count),
+        ...termSuggestions.sort((a, b) => b.count - a.count),
+      ].slice(0, suggestionLimit);
+    },
+  };
+}
+
+// ? Rendering. Both go through the escaping `html` tag from search-render.ts.
+
+function renderSuggestionsHTML(suggestions: Suggestion[]): SafeHtml {
+  if (!suggestions.length) {
+    return html``;
+  }
+
+  return html`<ul class="search-suggestions" role="listbox">
+    ${suggestions.map(
+      (suggestion) =>
+        html`<li
+          role="option"
+          class="search-suggestion search-suggestion--${suggestion.kind}"
+          data-kind="${suggestion.kind}"
+          data-value="${suggestion.value}"
+        >
+          ${suggestion.kind === "tag" ? TAG_PREFIX : ""}${suggestion.value}
+          <span class="search-suggestion__count">${suggestion.count}</span>
+        </li>`
+    )}
+  </ul>`;
+}
+
+function renderFacetsHTML(facets: TagFacet[]): SafeHtml {
+  return html`<ul class="search-facets">
+    ${facets.map(
+      (facet) =>
+        html`<li data-tag="${facet.tag}">
+          ${facet.tag} <span class="search-facet__count">${facet.count}</span>
+        </li>`
+    )}
+  </ul>`;
+}
+
+// Puts a suggestion list right under the input and keeps it up to date while the user types.
+// Picking a suggestion replaces the word that's being typed.
+function attachSuggestions(
+  input: HTMLInputElement,
+  suggest: SuggestFn,
+  debounceMs = 150
+) {
+  const list = document.createElement("div");
+  list.className = "search-suggestions-wrapper";
+  input.insertAdjacentElement("afterend", list);
+
+  // Only the last word is completed, everything before it stays as it is
+  const lastWord = (value: string) => value.slice(value.search(/\S*$/));
+  // A + or - in front (search-query-language.ts) isn't part of what's being completed, but it stays on the word
+  const modifierOf = (word: string) => (/^[+-]/.test(word) ? word[0] : "");
+  const withoutModifier = (word: string) => word.slice(modifierOf(word).length);
+
+  const liveSuggest = createLiveSearch<Suggestion>(suggest, {
+    debounceMs,
+    onResults(suggestions) {
+      list.replaceChildren(toFragment(renderSuggestionsHTML(suggestions)));
+    },
+    onError() {
+      list.replaceChildren();
+    },
+  });
+
+  input.addEventListener("input", function () {
+    liveSuggest.update(withoutModifier(lastWord(this.value)));
+  });
+
+  list.addEventListener("click", (event) => {
+    const option =
+      event.target instanceof Element
+        ? event.target.closest<HTMLElement>("[data-value]")
+        : null;
+
+    if (!option) {
+      return;
+    }
+
+    const prefix = option.dataset.kind === "tag" ? TAG_PREFIX : "";
+    const typed = lastWord(input.value);
+    const before = input.value.slice(0, input.value.length - typed.length);
+
+    const word = `${modifierOf(typed)}${prefix}${option.dataset.value}`;
+
+    input.value = `${before}${word} `;
+    list.replaceChildren();
+    input.focus();
+    input.dispatchEvent(new Event("input"));
+  });
+}
+
+// Example: suggestions from the backend, or from the same corpus the local search engine uses
+displaySearch2(
+  "search-input",
+  "search-results",
+  search3,
+  250,
+  searchClient.suggest
+);
@@ -0,0 +1,276 @@
+// ! Federated search
+
+// We have more than one place to search: the API, the local index, maybe a partner's backend. They all fit `searchFn`,
+// so `federate` asks all of them at once and merges what comes back. A source that fails or takes too long is reported
+// in `sources` and the others still make it into `results`.
+
+type SearchSource = {
+  name: string;
+  search: searchFn;
+  // Overrides the timeout from FederatedOptions for this source
+  timeoutMs?: number;
+  // Used by the default scorer to favour one source over another. Defaults to 1.
+  weight?: number;
+};
+
+type SourcedResult = Result & {
+  // The source the result was taken from. If several sources had it, the one that ranked it best.
+  source: string;
+};
+
+type SourceStatus = {
+  source: string;
+  durationMs: number;
+} & ({ kind: "ok"; count: number } | { kind: "failed"; error: SearchError });
+
+type FederatedResults = {
+  results: SourcedResult[];
+  sources: SourceStatus[];
+};
+
+// Everything a scorer needs to know about one result from one source. Scores for the same url are added up.
+type FederatedCandidate = {
+  result: Result;
+  // 0 for the first result of its source
+  rank: number;
+  source: SearchSource;
+};
+
+type FederatedScorer = (candidate: FederatedCandidate) => number;
+
+type FederatedOptions = {
+  // Defaults to 3 seconds
+  timeoutMs?: number;
+  // "interleave" takes the first result of every source, then the second, ... A scorer re-ranks everything instead.
+  // Defaults to reciprocalRankScorer.
+  merge?: "interleave" | FederatedScorer;
+  clock?: Pick<Clock, "now">;
+};
+
+type FederatedSearch = {
+  (query: string, tags?: string[], options?: SearchOptions): Promise<
+    FederatedResults
+  >;
+  // Only the results, so the federation fits anywhere a searchFn goes
+  asSearchFn(): searchFn;
+};
+
+// Results that show up in several sources float to the top, because their scores add up
+const reciprocalRankScorer: FederatedScorer = ({ rank, source }) =>
+  (source.weight ?? 1) / (60 + rank);
+
+// "https://www.Example.com/a/?b=1&a=2#top" and "http://example.com/a?a=2&b=1" are the same page
+function normalizeResultUrl(url: string) {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.host.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "");
+    const params = Array.from(parsed.searchParams.entries())
+      .map(([key, value]) => `${key}=${value}`)
+      .sort()
+      .join("&");
+
+    return `${host}${path}${params ? `?${params}` : ""}`;
+  } catch {
+    // Not an absolute URL, compare it as is
+    return url.trim().toLowerCase();
+  }
+}
+
+function federationAborted() {
+  return new SearchFailure({
+    kind: "aborted",
+    message: "The search was cancelled",
+  });
+}
+
+function runSource(
+  source: SearchSource,
+  query: string,
+  tags: string[] | undefined,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Result[]> {
+  if (signal?.aborted) {
+    return Promise.reject(federationAborted());
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: () => void = () => undefined;
+
+  // Don't rely on the source to respect the signal, the caller's abort and the timeout win either way
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      controller.abort(signal?.reason);
+      reject(federationAborted());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(
+        new SearchFailure({
+          kind: "timeout",
+          message: `${source.name} took longer than ${timeoutMs}ms`,
+          timeoutMs,
+        })
+      );
+    }, timeoutMs);
+  });
+
+  return Promise.race([
+    source.search(query, tags, { signal: controller.signal }),
+    aborted,
+    timeout,
+  ]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  });
+}
+
+function interleave(batches: SourcedResult[][]) {
+  const merged: SourcedResult[] = [];
+  const longest = Math.max(0, ...batches.map((batch) => batch.length));
+
+  for (let rank = 0; rank < longest; rank++) {
+    batches.forEach((batch) => {
+      if (rank < batch.length) {
+        merged.push(batch[rank]);
+      }
+    });
+  }
+
+  return merged;
+}
+
+function federate(
+  sources: SearchSource[],
+  {
+    timeoutMs = 3_000,
+    merge = reciprocalRankScorer,
+    clock = systemClock,
+  }: FederatedOptions = {}
+): FederatedSearch {
+  async function search(
+    query: string,
+    tags?: string[],
+    options: SearchOptions = {}
+  ): Promise<FederatedResults> {
+    const settled = await Promise.all(
+      sources.map(async (source) => {
+        // Each source is timed on its own, not until the slowest one is done
+        const started = clock.now();
+
+        try {
+          const found = await runSource(
+            source,
+            query,
+            tags,
+            source.timeoutMs ?? timeoutMs,
+            options.signal
+          );
+
+          const durationMs = clock.now() - started;
+          return { source, found, error: undefined, durationMs };
+        } catch (error) {
+          const durationMs = clock.now() - started;
+          return { source, found: [], error: toSearchError(error), durationMs };
+        }
+      })
+    );
+
+    // Every source failed with "aborted" then, and nobody is waiting for the results anymore
+    if (options.signal?.aborted) {
+      throw federationAborted();
+    }
+
+    const statuses: SourceStatus[] = settled.map(
+      ({ source, found, error, durationMs }) => {
+        if (error) {
+          return { source: source.name, durationMs, kind: "failed", error };
+        }
+
+        return {
+          source: source.name,
+          durationMs,
+          kind: "ok",
+          count: found.length,
+        };
+      }
+    );
+
+    const batches = settled.map(({ source, found }) =>
+      found.map((result) => ({ ...result, source: source.name }))
+    );
+
+    return { results: mergeBatches(batches), sources: statuses };
+  }
+
+  function mergeBatches(batches: SourcedResult[][]): SourcedResult[] {
+    if (merge === "interleave") {
+      const seen = new Set<string>();
+
+      return interleave(batches).filter((result) => {
+        const key = normalizeResultUrl(result.url);
+
+        if (seen.has(key)) {
+          return false;
+        }
+
+        seen.add(key);
+        return true;
+      });
+    }
+
+    // Add up the scores per url, keep the copy from the source that scored it best
+    const scored = new Map<
+      string,
+      { result: SourcedResult; total: number; best: number }
+    >();
+
+    batches.forEach((batch, i) => {
+      batch.forEach((result, rank) => {
+        const key = normalizeResultUrl(result.url);
+        const score = merge({ result, rank, source: sources[i] });
+        const entry = scored.get(key);
+
+        if (!entry) {
+          scored.set(key, { result, total: score, best: score });
+          return;
+        }
+
+        entry.total += score;
+
+        if (score > entry.best) {
+          entry.best = score;
+          entry.result = result;
+        }
+      });
+    });
+
+    return Array.from(scored.values())
+      .sort((a, b) => b.total - a.total)
+      .map((entry) => entry.result);
+  }
+
+  return Object.assign(search, {
+    asSearchFn(): searchFn {
+      return async (query, tags, options) =>
+        (await search(query, tags, options)).results;
+    },
+  });
+}
+
+// Example: the API and the offline index side by side
+const federatedSearch = federate(
+  [
+    { name: "api", search: search3, timeoutMs: 2_000 },
+    { name: "local", search: localSearch, weight: 0.5 },
+  ],
+  { merge: "interleave" }
+);
+
+displaySearch("search-input", "search-results", federatedSearch.asSearchFn());
@@ -0,0 +1,173 @@
+// ! Highlight markup
+
+// The backend marks matches as `@@starthl@@Remix@@endhl@@`. The `highlight` tag in chapter 3 only replaced the first pair
+// and trusted the markers to be balanced. Here we tokenize the whole string first, then render the tokens.
+
+const HIGHLIGHT_START = "@@starthl@@";
+const HIGHLIGHT_END = "@@endhl@@";
+
+type HighlightToken = {
+  kind: "text" | "highlight";
+  value: string;
+};
+
+// * Unbalanced markers never make it into the output, they're reported here instead
+// unexpected-end: an end marker without a start marker before it
+// nested-start: a start marker while a highlight is already open
+// unclosed-start: a start marker that is never closed, its text is rendered without highlighting
+type HighlightIssue = {
+  kind: "unexpected-end" | "nested-start" | "unclosed-start";
+  // Position of the offending marker in the input
+  index: number;
+};
+
+type HighlightParse = {
+  tokens: HighlightToken[];
+  issues: HighlightIssue[];
+};
+
+class HighlightMarkupError extends Error {
+  constructor(readonly issues: HighlightIssue[]) {
+    super(
+      `Unbalanced highlight markers: ${issues
+        .map((issue) => `${issue.kind} at ${issue.index}`)
+        .join(", ")}`
+    );
+    this.name = "HighlightMarkupError";
+  }
+}
+
+function tokenizeHighlight(input: string): HighlightParse {
+  const tokens: HighlightToken[] = [];
+  const issues: HighlightIssue[] = [];
+  const marker = /@@starthl@@|@@endhl@@/g;
+
+  let buffer = "";
+  let openAt = -1;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  function flush(kind: HighlightToken["kind"]) {
+    if (buffer) {
+      // Merge with the previous token if it has the same kind, i.e. after a dropped marker
+      const previous = tokens[tokens.length - 1];
+
+      if (previous && previous.kind === kind) {
+        previous.value += buffer;
+      } else {
+        tokens.push({ kind, value: buffer });
+      }
+    }
+
+    buffer = "";
+  }
+
+  while ((match = marker.exec(input))) {
+    buffer += input.slice(cursor, match.index);
+    cursor = match.index + match[0].length;
+
+    if (match[0] === HIGHLIGHT_START) {
+      if (openAt !== -1) {
+        issues.push({ kind: "nested-start", index: match.index });
+        continue;
+      }
+
+      flush("text");
+      openAt = match.index;
+    } else {
+      if (openAt === -1) {
+        issues.push({ kind: "unexpected-end", index: match.index });
+        continue;
+      }
+
+      flush("highlight");
+      openAt = -1;
+    }
+  }
+
+  buffer += input.slice(cursor);
+
+  if (openAt !== -1) {
+    issues.push({ kind: "unclosed-start", index: openAt });
+  }
+
+  flush("text");
+
+  return { tokens, issues };
+}
+
+type HighlightOptions = {
+  // The element that wraps a match. Defaults to <mark>.
+  tag?: string;
+  className?: string;
+  // "ignore" renders what it can and drops the stray markers, "throw" raises a HighlightMarkupError
+  onUnbalanced?: "ignore" | "throw";
+};
+
+function parseHighlight(
+  input: string,
+  { onUnbalanced = "ignore" }: HighlightOptions
+) {
+  const parsed = tokenizeHighlight(input);
+
+  if (parsed.issues.length && onUnbalanced === "throw") {
+    throw new HighlightMarkupError(parsed.issues);
+  }
+
+  return parsed.tokens;
+}
+
+function highlightTagName({ tag = "mark" }: HighlightOptions) {
+  // The tag ends up in markup, so it has to be a plain element name
+  if (!/^[a-z][a-z0-9-]*$/i.test(tag)) {
+    throw new Error(`"${tag}" is not a valid element name`);
+  }
+
+  return tag;
+}
+
+function renderHighlightHTML(
+  input: string,
+  options: HighlightOptions = {}
+): SafeHtml {
+  const tag = highlightTagName(options);
+  const open = options.className
+    ? `<${tag} class="${escapeHtml(options.className)}">`
+    : `<${tag}>`;
+
+  return new SafeHtml(
+    parseHighlight(input, options)
+      .map((token) =>
+        token.kind === "highlight"
+          ? `${open}${escapeHtml(token.value)}</${tag}>`
+          : escapeHtml(token.value)
+      )
+      .join("")
+  );
+}
+
+function renderHighlightFragment(
+  input: string,
+  options: HighlightOptions = {}
+): DocumentFragment {
+  const tag = highlightTagName(options);
+  const fragment = document.createDocumentFragment();
+
+  parseHighlight(input, options).forEach((token) => {
+    if (token.kind === "text") {
+      fragment.appendChild(document.createTextNode(token.value));
+      return;
+    }
+
+    const element = document.createElement(tag);
+
+    if (options.className) {
+      element.className = options.className;
+    }
+
+    element.textContent = token.value;
+    fragment.appendChild(element);
+  });
+
+  return fragment;
+}
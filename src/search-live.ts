@@ -0,0 +1,123 @@
+// ! Live search
+
+// Searching as you type fires a request on every keystroke, and a slow response for "re" can easily land after the
+// response for "remix". The controller below debounces the input, aborts the request it no longer needs and only ever
+// hands the results of the latest query back to the caller.
+
+type LiveSearchState = "idle" | "loading" | "error";
+
+// Anything shaped like a searchFn works, i.e. tag suggestions (search-facets.ts) return Suggestion[] instead of Result[]
+type LiveSearchFn<Item> = (
+  query: string,
+  tags?: string[],
+  options?: SearchOptions
+) => Promise<Item[]>;
+
+type LiveSearchOptions<Item> = {
+  // How long the input has to be quiet before we search. Defaults to 250ms.
+  debounceMs?: number;
+  onResults: (results: Item[], query: string) => void;
+  onError?: (error: unknown, query: string) => void;
+  onStateChange?: (state: LiveSearchState) => void;
+};
+
+type LiveSearch = {
+  update(query: string): void;
+  cancel(): void;
+};
+
+function createLiveSearch<Item = Result>(
+  search: LiveSearchFn<Item>,
+  {
+    debounceMs = 250,
+    onResults,
+    onError,
+    onStateChange,
+  }: LiveSearchOptions<Item>
+): LiveSearch {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let controller: AbortController | undefined;
+  // Every request gets a number. A response is only rendered if its number is still the latest one.
+  let latest = 0;
+
+  function setState(state: LiveSearchState) {
+    onStateChange?.(state);
+  }
+
+  function cancel() {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    controller?.abort();
+    controller = undefined;
+    latest++;
+  }
+
+  function run(query: string) {
+    const request = ++latest;
+    const current = new AbortController();
+    controller = current;
+
+    setState("loading");
+
+    search(query, undefined, { signal: current.signal }).then(
+      (results) => {
+        if (request === latest && !current.signal.aborted) {
+          setState("idle");
+          onResults(results, query);
+        }
+      },
+      (error) => {
+        // Aborted requests were replaced by a newer one, nobody is waiting for them
+        if (request === latest && !current.signal.aborted) {
+          setState("error");
+          onError?.(error, query);
+        }
+      }
+    );
+  }
+
+  return {
+    update(query) {
+      cancel();
+
+      const trimmed = query.trim();
+
+      // Nothing to search for, clear the output instead of asking the backend for everything
+      if (!trimmed) {
+        setState("idle");
+        onResults([], trimmed);
+        return;
+      }
+
+      timer = setTimeout(() => {
+        timer = undefined;
+        run(trimmed);
+      }, debounceMs);
+    },
+
+    cancel() {
+      cancel();
+      setState("idle");
+    },
+  };
+}
+
+// The wrapper around the input reflects the state as a class so it can be styled
+const liveSearchStateClasses: Record<LiveSearchState, string> = {
+  idle: "is-idle",
+  loading: "is-loading",
+  error: "is-error",
+};
+
+function setLiveSearchState(element: Element | null, state: LiveSearchState) {
+  if (!element) {
+    return;
+  }
+
+  Object.keys(liveSearchStateClasses).forEach((key) => {
+    element.classList.toggle(liveSearchStateClasses[key], key === state);
+  });
+}
@@ -0,0 +1,223 @@
+// ! Local search engine
+
+// A search backend that lives entirely in memory. It satisfies `searchFn`, so demos and tests can use it anywhere the
+// real backend would go. It ranks with BM25 and marks matches with the same `@@starthl@@`/`@@endhl@@` markers the
+// backend uses, so the highlight pipeline doesn't know the difference.
+
+// The corpus can carry tags, the results we hand back are plain `Result`s
+type LocalDocument = Result & {
+  tags?: string[];
+};
+
+type LocalSearchOptions = {
+  // BM25 tuning. k1 controls how quickly repeated terms stop counting, b how much long documents are penalised.
+  k1?: number;
+  b?: number;
+  // A match in the title counts this many times as much as a match in the abstract. Defaults to 2.
+  titleWeight?: number;
+  // Defaults to 20
+  limit?: number;
+};
+
+type LocalToken = {
+  stem: string;
+  start: number;
+  end: number;
+};
+
+// Letters (including accented latin ones) and digits
+const WORD_PATTERN = /[A-Za-z0-9À-ɏ]+/g;
+
+// A deliberately small stemmer: it keeps stripping the common English suffixes, so "climbing", "climbers" and "climbed"
+// all end up as "climb". Words are never cut below three letters.
+const stemRules: [suffix: string, replacement: string][] = [
+  ["ies", "y"],
+  ["ing", ""],
+  ["ers", ""],
+  ["er", ""],
+  ["ed", ""],
+  ["ly", ""],
+  ["es", ""],
+  ["s", ""],
+];
+
+function stem(word: string): string {
+  const lower = word.toLowerCase();
+
+  // "class" and "glass" don't have a plural "s" to strip
+  if (lower.endsWith("ss")) {
+    return lower;
+  }
+
+  for (const [suffix, replacement] of stemRules) {
+    if (
+      lower.endsWith(suffix) &&
+      lower.length - suffix.length + replacement.length >= 3
+    ) {
+      return stem(lower.slice(0, -suffix.length) + replacement);
+    }
+  }
+
+  return lower;
+}
+
+function tokenizeText(text: string): LocalToken[] {
+  const tokens: LocalToken[] = [];
+  let match: RegExpExecArray | null;
+
+  WORD_PATTERN.lastIndex = 0;
+
+  while ((match = WORD_PATTERN.exec(text))) {
+    tokens.push({
+      stem: stem(match[0]),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+// Wraps every token whose stem was searched for in highlight markers
+function markMatches(text: string, stems: Set<string>) {
+  let marked = "";
+  let cursor = 0;
+
+  tokenizeText(text).forEach((token) => {
+    if (stems.has(token.stem)) {
+      marked +=
+        text.slice(cursor, token.start) +
+        HIGHLIGHT_START +
+        text.slice(token.start, token.end) +
+        HIGHLIGHT_END;
+      cursor = token.end;
+    }
+  });
+
+  return marked + text.slice(cursor);
+}
+
+type LocalIndexEntry = {
+  document: LocalDocument;
+  // Weighted term frequencies, the title already multiplied by titleWeight
+  frequencies: Map<string, number>;
+  length: number;
+  tags: Set<string>;
+};
+
+function createLocalSearch(
+  corpus: LocalDocument[],
+  {
+    k1 = 1.2,
+    b = 0.75,
+    titleWeight = 2,
+    limit = 20,
+  }: LocalSearchOptions = {}
+): searchFn {
+  const entries: LocalIndexEntry[] = corpus.map((document) => {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+
+    function count(text: string, weight: number) {
+      tokenizeText(text).forEach((token) => {
+        const current = frequencies.get(token.stem) ?? 0;
+        frequencies.set(token.stem, current + weight);
+        length += weight;
+      });
+    }
+
+    count(document.title, titleWeight);
+    count(document.abstract, 1);
+
+    return {
+      document,
+      frequencies,
+      length,
+      tags: new Set((document.tags ?? []).map((tag) => tag.toLowerCase())),
+    };
+  });
+
+  // The inverted index: for every stem, the documents that contain it
+  const postings = new Map<string, LocalIndexEntry[]>();
+
+  entries.forEach((entry) => {
+    entry.frequencies.forEach((_, term) => {
+      const list = postings.get(term) ?? [];
+      list.push(entry);
+      postings.set(term, list);
+    });
+  });
+
+  const averageLength =
+    entries.reduce((sum, entry) => sum + entry.length, 0) /
+    Math.max(entries.length, 1);
+
+  function inverseFrequency(term: string) {
+    const containing = postings.get(term)?.length ?? 0;
+    return Math.log(
+      1 + (entries.length - containing + 0.5) / (containing + 0.5)
+    );
+  }
+
+  function score(entry: LocalIndexEntry, terms: string[]) {
+    return terms.reduce((sum, term) => {
+      const frequency = entry.frequencies.get(term) ?? 0;
+      const normalization =
+        k1 * (1 - b + (b * entry.length) / (averageLength || 1));
+
+      return (
+        sum +
+        (inverseFrequency(term) * (frequency * (k1 + 1))) /
+          (frequency + normalization)
+      );
+    }, 0);
+  }
+
+  return async (query, tags = [], options = {}) => {
+    if (options.signal?.aborted) {
+      throw options.signal.reason;
+    }
+
+    const terms = Array.from(
+      new Set(tokenizeText(query).map((token) => token.stem))
+    );
+    const requiredTags = tags.map((tag) => tag.toLowerCase());
+
+    // Every document that contains at least one of the terms
+    const candidates = new Set<LocalIndexEntry>();
+    terms.forEach((term) =>
+      postings.get(term)?.forEach((entry) => candidates.add(entry))
+    );
+
+    const stems = new Set(terms);
+
+    return Array.from(candidates)
+      .filter((entry) => requiredTags.every((tag) => entry.tags.has(tag)))
+      .map((entry) => ({ entry, score: score(entry, terms) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ entry }) => ({
+        title: markMatches(entry.document.title, stems),
+        url: entry.document.url,
+        abstract: markMatches(entry.document.abstract, stems),
+      }));
+  };
+}
+
+// Example: the offline engine works with everything that takes a searchFn
+const localSearch = createLocalSearch([
+  {
+    title: "Rock climbing for beginners",
+    url: "https://example.com/rock-climbing",
+    abstract: "Everything you need to know before you climb your first wall.",
+    tags: ["outdoors", "fitness"],
+  },
+  {
+    title: "Indoor bouldering",
+    url: "https://example.com/bouldering",
+    abstract: "Climbers who prefer short, hard problems over long routes.",
+    tags: ["indoors", "fitness"],
+  },
+]);
+
+displaySearch("search-input", "search-results", localSearch);
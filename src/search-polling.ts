@@ -0,0 +1,173 @@
+// ! Polling engine
+
+// `fetchResults2` asked the backend again the moment an answer came back, and it only stopped once the backend said
+// `complete`. If that never happened it spun forever. `createPoller` keeps the same
+// `AsyncGenerator<Result[], void, boolean>` contract, but waits between requests and knows when to give up.
+
+// Time is injected so tests don't have to actually wait
+type Clock = {
+  now(): number;
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+};
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(signal.reason);
+      }
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+
+      function onAbort() {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }),
+};
+
+type PollingOptions = {
+  // Wait before the second request. Defaults to 500ms.
+  intervalMs?: number;
+  // Every following wait is multiplied by this. Defaults to 2, use 1 for a fixed interval.
+  backoffFactor?: number;
+  // The wait never grows past this. Defaults to 10 seconds.
+  maxIntervalMs?: number;
+  // Stop asking once this much time has passed since the first request. Defaults to 60 seconds.
+  deadlineMs?: number;
+  // Stop after this many batches, complete or not
+  maxBatches?: number;
+  signal?: AbortSignal;
+  clock?: Clock;
+  onStop?: (reason: PollingStopReason) => void;
+};
+
+// Why the poller stopped, for anyone who wants to know whether they got everything
+type PollingStopReason =
+  | "complete"
+  | "stopped"
+  | "deadline"
+  | "max-batches"
+  | "aborted";
+
+type PollingFetch = (signal?: AbortSignal) => Promise<PollingResults>;
+
+async function* createPoller(
+  fetchBatch: PollingFetch,
+  {
+    intervalMs = 500,
+    backoffFactor = 2,
+    maxIntervalMs = 10_000,
+    deadlineMs = 60_000,
+    maxBatches = Infinity,
+    signal,
+    clock = systemClock,
+    onStop,
+  }: PollingOptions = {}
+): AsyncGenerator<Result[], void, boolean> {
+  const deadline = clock.now() + deadlineMs;
+  // Results can show up in more than one batch, we only hand out each url once
+  const seen = new Set<string>();
+
+  let wait = intervalMs;
+  let batches = 0;
+
+  function stop(reason: PollingStopReason) {
+    onStop?.(reason);
+  }
+
+  // A request that hangs in the backend would otherwise run past the deadline, so every request races the time that's
+  // left. Whichever loses is aborted. The race runs on a real timer: a test clock moves time forward when it's asked to
+  // sleep, and that would use up the deadline while the request is still running.
+  async function fetchBeforeDeadline() {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      return await Promise.race([
+        fetchBatch(controller.signal),
+        systemClock
+          .sleep(Math.max(0, deadline - clock.now()), controller.signal)
+          .then(
+            () => "deadline" as const,
+            () => "aborted" as const
+          ),
+      ]);
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      controller.abort();
+    }
+  }
+
+  while (true) {
+    if (signal?.aborted) {
+      return stop("aborted");
+    }
+
+    let state: Awaited<ReturnType<typeof fetchBeforeDeadline>>;
+
+    // An abort ends the poller the same way whether it happens during a request or during a wait
+    try {
+      state = await fetchBeforeDeadline();
+    } catch (error) {
+      if (signal?.aborted) {
+        return stop("aborted");
+      }
+
+      throw error;
+    }
+
+    if (state === "deadline" || state === "aborted") {
+      return stop(state);
+    }
+
+    batches++;
+
+    const fresh = state.results.filter((result) => {
+      if (seen.has(result.url)) {
+        return false;
+      }
+
+      seen.add(result.url);
+      return true;
+    });
+
+    const stopRequested = yield fresh;
+
+    if (state.complete) {
+      return stop("complete");
+    }
+
+    if (stopRequested === true) {
+      return stop("stopped");
+    }
+
+    if (batches >= maxBatches) {
+      return stop("max-batches");
+    }
+
+    // Don't sleep past the deadline only to find out we're out of time
+    if (clock.now() + wait >= deadline) {
+      return stop("deadline");
+    }
+
+    try {
+      await clock.sleep(wait, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        return stop("aborted");
+      }
+
+      throw error;
+    }
+
+    wait = Math.min(wait * backoffFactor, maxIntervalMs);
+  }
+}
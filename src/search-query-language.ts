@@ -0,0 +1,253 @@
+// ! Search query language
+
+// Instead of filling in separate fields, users can type everything into the search box:
+//
+//   climbing +beginner -indoor "rock wall" tag:outdoors -tag:paid
+//
+// `+` marks a term that has to be there, `-` one that must not be there, quotes keep a phrase together and `tag:`
+// (or `-tag:`) filters by tag. A backslash escapes the next character. parseSearchQuery turns that into a ParsedQuery,
+// serializeSearchQuery goes back.
+
+type ClauseModifier = "optional" | "required" | "excluded";
+
+type QueryClause = {
+  kind: "term" | "phrase";
+  value: string;
+  modifier: ClauseModifier;
+};
+
+type ParsedQuery = {
+  clauses: QueryClause[];
+  tags: string[];
+  excludedTags: string[];
+};
+
+type QuerySyntaxIssue = {
+  message: string;
+  // Where the problem starts in the input, counting from 0
+  position: number;
+  length: number;
+};
+
+class QuerySyntaxError extends Error {
+  constructor(readonly input: string, readonly issues: QuerySyntaxIssue[]) {
+    super(
+      issues
+        .map((issue) => `${issue.message} at position ${issue.position}`)
+        .join("; ")
+    );
+    this.name = "QuerySyntaxError";
+  }
+}
+
+const TAG_PREFIX = "tag:";
+
+function isQueryWhitespace(char: string | undefined) {
+  return typeof char === "undefined" || /\s/.test(char);
+}
+
+function parseSearchQuery(input: string): ParsedQuery {
+  const parsed: ParsedQuery = { clauses: [], tags: [], excludedTags: [] };
+  const issues: QuerySyntaxIssue[] = [];
+  let i = 0;
+
+  function fail(message: string, position: number, length = 1) {
+    issues.push({ message, position, length });
+  }
+
+  // Reads a quoted string starting at the opening quote. A backslash escapes the next character.
+  function readQuoted(): string | undefined {
+    const start = i;
+    let value = "";
+    i++;
+
+    while (i < input.length && input[i] !== '"') {
+      if (input[i] === "\\" && i + 1 < input.length) {
+        i++;
+      }
+
+      value += input[i];
+      i++;
+    }
+
+    if (i >= input.length) {
+      fail("Unterminated quote", start, input.length - start);
+      return undefined;
+    }
+
+    // Skip the closing quote
+    i++;
+
+    if (!isQueryWhitespace(input[i])) {
+      fail("Expected a space after the closing quote", i);
+      skipWord();
+    }
+
+    return value;
+  }
+
+  // Reads up to the next space. Quotes are only allowed at the start of a word. A backslash takes the next character
+  // literally, so `\-x` is the term "-x" and `\tag:x` is the term "tag:x".
+  function readBare(): string | undefined {
+    let value = "";
+
+    while (!isQueryWhitespace(input[i])) {
+      if (input[i] === '"') {
+        fail("Unexpected quote inside a word", i);
+        skipWord();
+        return undefined;
+      }
+
+      if (input[i] === "\\" && i + 1 < input.length) {
+        i++;
+      }
+
+      value += input[i];
+      i++;
+    }
+
+    return value;
+  }
+
+  function skipWord() {
+    while (!isQueryWhitespace(input[i])) {
+      i++;
+    }
+  }
+
+  while (i < input.length) {
+    if (isQueryWhitespace(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let modifier: ClauseModifier = "optional";
+
+    if (input[i] === "+" || input[i] === "-") {
+      modifier = input[i] === "+" ? "required" : "excluded";
+      i++;
+
+      if (isQueryWhitespace(input[i])) {
+        fail(`Expected a term after "${input[start]}"`, start);
+        continue;
+      }
+    }
+
+    if (input.slice(i, i + TAG_PREFIX.length).toLowerCase() === TAG_PREFIX) {
+      i += TAG_PREFIX.length;
+
+      const valueStart = i;
+      const tag = input[i] === '"' ? readQuoted() : readBare();
+
+      if (tag === "") {
+        fail(
+          `Expected a tag name after "${TAG_PREFIX}"`,
+          valueStart - TAG_PREFIX.length,
+          TAG_PREFIX.length
+        );
+      } else if (typeof tag !== "undefined") {
+        const list =
+          modifier === "excluded" ? parsed.excludedTags : parsed.tags;
+
+        if (!list.includes(tag)) {
+          list.push(tag);
+        }
+      }
+
+      continue;
+    }
+
+    if (input[i] === '"') {
+      // Collapse the whitespace inside a phrase, "rock   wall" and "rock wall" are the same phrase
+      const phrase = readQuoted()?.trim().replace(/\s+/g, " ");
+
+      if (phrase === "") {
+        fail("Empty phrase", start, i - start);
+      } else if (typeof phrase !== "undefined") {
+        parsed.clauses.push({ kind: "phrase", value: phrase, modifier });
+      }
+
+      continue;
+    }
+
+    const term = readBare();
+
+    if (typeof term !== "undefined") {
+      parsed.clauses.push({ kind: "term", value: term, modifier });
+    }
+  }
+
+  if (issues.length) {
+    throw new QuerySyntaxError(input, issues);
+  }
+
+  return parsed;
+}
+
+// ? And back again. The canonical form is the clauses in order, then the tags, then the excluded tags.
+
+const clausePrefixes: Record<ClauseModifier, string> = {
+  optional: "",
+  required: "+",
+  excluded: "-",
+};
+
+function quoteQueryValue(value: string) {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+// Tags only need quotes if they would otherwise be split or misread
+function serializeTagValue(tag: string) {
+  return /[\s"\\]/.test(tag) || tag === "" ? quoteQueryValue(tag) : tag;
+}
+
+// Quotes would turn a term into a phrase, so terms escape what would be misread instead: quotes, backslashes and
+// whitespace anywhere, and a leading +, - or tag:
+function serializeTermValue(term: string) {
+  const escaped = term.replace(/(["\\\s])/g, "\\$1");
+  const misread =
+    /^[+-]/.test(escaped) || escaped.toLowerCase().startsWith(TAG_PREFIX);
+
+  return misread ? `\\${escaped}` : escaped;
+}
+
+function serializeClause(clause: QueryClause) {
+  const value =
+    clause.kind === "phrase"
+      ? quoteQueryValue(clause.value)
+      : serializeTermValue(clause.value);
+
+  return `${clausePrefixes[clause.modifier]}${value}`;
+}
+
+function serializeSearchQuery(query: ParsedQuery): string {
+  return [
+    ...query.clauses.map(serializeClause),
+    ...query.tags.map((tag) => `${TAG_PREFIX}${serializeTagValue(tag)}`),
+    ...query.excludedTags.map(
+      (tag) => `-${TAG_PREFIX}${serializeTagValue(tag)}`
+    ),
+  ].join(" ");
+}
+
+// The backend gets the text part as the query and the tags as tags (see search-query.ts)
+function toSearchQuery(
+  query: ParsedQuery
+): SearchQuery<{ excludedTags: string[] }> {
+  return {
+    query: query.clauses.map(serializeClause).join(" "),
+    tags: query.tags,
+    filters: query.excludedTags.length
+      ? { excludedTags: query.excludedTags }
+      : undefined,
+  };
+}
+
+// Example: the search box string becomes the same structure search3 and the Query types use
+const parsedClimbingQuery = parseSearchQuery(
+  'climbing tag:outdoors -indoor "rock wall"'
+);
+
+// 'climbing -indoor "rock wall" tag:outdoors'
+const canonicalClimbingQuery = serializeSearchQuery(parsedClimbingQuery);
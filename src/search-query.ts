@@ -0,0 +1,260 @@
+// ! Search query builder
+
+// `Query.assemble` glued strings together without encoding anything, so a query like "C# & .NET" would turn into
+// `?query=C# & .NET` and the `#` cut the URL short. The builder below encodes every value and round trips through
+// `parseQueryString`.
+
+type FilterValue = string | number | boolean | Date | string[];
+
+type SearchFilters = Record<string, FilterValue>;
+
+type SortOrder = {
+  by: string;
+  direction: "asc" | "desc";
+};
+
+// The filters are generic so that callers get autocomplete (and type errors) on their own filter names
+type SearchQuery<Filters extends SearchFilters = SearchFilters> = {
+  query: string;
+  tags?: string[];
+  page?: number;
+  size?: number;
+  sort?: SortOrder;
+  filters?: Partial<Filters>;
+};
+
+// Filters are sent as `filter.<name>=<value>` so they can't collide with the reserved keys
+const FILTER_PREFIX = "filter.";
+
+function encodeFilterValue(value: FilterValue): string {
+  if (value instanceof Date) {
+    return encodeURIComponent(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return encodeList(value);
+  }
+
+  return encodeURIComponent(String(value));
+}
+
+// Lists keep the `a,b,c` shape the backend already understands. A comma inside an item is encoded as %2C so it can't split it.
+function encodeList(items: string[]) {
+  return items.map(encodeURIComponent).join(",");
+}
+
+// `page` and `size` have to survive the round trip through `parseQueryString`, so they're checked the same way here
+function checkWholeNumber(name: string, value: number) {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`"${name}" should be a whole number, got ${value}`);
+  }
+
+  return value;
+}
+
+function buildQueryString<Filters extends SearchFilters>(
+  search: SearchQuery<Filters>
+): string {
+  const params = [`query=${encodeURIComponent(search.query)}`];
+
+  if (search.tags && search.tags.length) {
+    params.push(`tags=${encodeList(search.tags)}`);
+  }
+
+  if (typeof search.page !== "undefined") {
+    params.push(`page=${checkWholeNumber("page", search.page)}`);
+  }
+
+  if (typeof search.size !== "undefined") {
+    params.push(`size=${checkWholeNumber("size", search.size)}`);
+  }
+
+  if (search.sort) {
+    params.push(
+      `sort=${encodeURIComponent(search.sort.by)}:${search.sort.direction}`
+    );
+  }
+
+  if (search.filters) {
+    // Sorted so the same query always produces the same string
+    Object.keys(search.filters)
+      .sort()
+      .forEach((name) => {
+        const value = search.filters?.[name];
+
+        if (typeof value !== "undefined") {
+          const key = `${FILTER_PREFIX}${encodeURIComponent(String(name))}`;
+          params.push(`${key}=${encodeFilterValue(value)}`);
+        }
+      });
+  }
+
+  return `?${params.join("&")}`;
+}
+
+// ? Going the other way: a query string only has strings in it, so we need to know which type each filter should be.
+// A schema maps filter names to the kind of value we expect.
+type FilterKind = "string" | "number" | "boolean" | "date" | "list";
+
+type FilterSchema = Record<string, FilterKind>;
+
+type FilterFromKind<Kind extends FilterKind> = Kind extends "number"
+  ? number
+  : Kind extends "boolean"
+  ? boolean
+  : Kind extends "date"
+  ? Date
+  : Kind extends "list"
+  ? string[]
+  : string;
+
+type FiltersFromSchema<Schema extends FilterSchema> = {
+  [Name in keyof Schema]: FilterFromKind<Schema[Name]>;
+};
+
+function decodeComponent(value: string) {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    // A URIError only says "URI malformed", without the part that was
+    throw new Error(`"${value}" isn't a valid encoded value`);
+  }
+}
+
+function decodeList(value: string) {
+  return value.split(",").filter(Boolean).map(decodeComponent);
+}
+
+function parseWholeNumber(name: string, value: string) {
+  const parsed = Number(value);
+
+  if (value === "" || !Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`"${name}" should be a whole number, got "${value}"`);
+  }
+
+  return parsed;
+}
+
+function parseFilterValue(name: string, kind: FilterKind, raw: string) {
+  switch (kind) {
+    case "string":
+      return decodeComponent(raw);
+    case "list":
+      return decodeList(raw);
+    case "number": {
+      const value = Number(decodeComponent(raw));
+
+      if (raw === "" || Number.isNaN(value)) {
+        throw new Error(`Filter "${name}" should be a number, got "${raw}"`);
+      }
+
+      return value;
+    }
+    case "boolean":
+      if (raw !== "true" && raw !== "false") {
+        throw new Error(`Filter "${name}" should be a boolean, got "${raw}"`);
+      }
+
+      return raw === "true";
+    case "date": {
+      const value = new Date(decodeComponent(raw));
+
+      if (Number.isNaN(value.getTime())) {
+        throw new Error(`Filter "${name}" should be a date, got "${raw}"`);
+      }
+
+      return value;
+    }
+    default:
+      throw neverError("Unknown filter kind", kind);
+  }
+}
+
+// Without a schema every filter comes back as a string. With one, unknown filters are ignored.
+function parseQueryString(input: string): SearchQuery<Record<string, string>>;
+function parseQueryString<Schema extends FilterSchema>(
+  input: string,
+  schema: Schema
+): SearchQuery<FiltersFromSchema<Schema>>;
+function parseQueryString(
+  input: string,
+  schema?: FilterSchema
+): SearchQuery<SearchFilters> {
+  const search: SearchQuery<SearchFilters> = { query: "" };
+  const filters: SearchFilters = {};
+
+  input
+    .replace(/^\?/, "")
+    .split("&")
+    .filter(Boolean)
+    .forEach((pair) => {
+      const separator = pair.indexOf("=");
+      const key = decodeComponent(
+        separator === -1 ? pair : pair.slice(0, separator)
+      );
+      const raw = separator === -1 ? "" : pair.slice(separator + 1);
+
+      if (key === "query") {
+        search.query = decodeComponent(raw);
+      } else if (key === "tags") {
+        search.tags = decodeList(raw);
+      } else if (key === "page") {
+        search.page = parseWholeNumber(key, raw);
+      } else if (key === "size") {
+        search.size = parseWholeNumber(key, raw);
+      } else if (key === "sort") {
+        // The direction is always the part after the last colon, the field name may contain colons itself
+        const colon = raw.lastIndexOf(":");
+        const direction = raw.slice(colon + 1);
+
+        if (colon === -1 || (direction !== "asc" && direction !== "desc")) {
+          throw new Error(`"sort" should look like "field:asc", got "${raw}"`);
+        }
+
+        search.sort = { by: decodeComponent(raw.slice(0, colon)), direction };
+      } else if (key.startsWith(FILTER_PREFIX)) {
+        const name = key.slice(FILTER_PREFIX.length);
+
+        if (!schema) {
+          filters[name] = decodeComponent(raw);
+        } else if (schema.hasOwnProperty(name)) {
+          filters[name] = parseFilterValue(name, schema[name], raw);
+        }
+      }
+    });
+
+  if (Object.keys(filters).length) {
+    search.filters = filters;
+  }
+
+  return search;
+}
+
+// The chapter 3 Query types map straight onto a SearchQuery
+function fromQuery(query: Query | Query2, includeTags = true): SearchQuery {
+  return {
+    query: query.query,
+    tags: includeTags ? query.tags : undefined,
+  };
+}
+
+// Example: filters are typed from the schema we parse with
+const climbingSchema = {
+  indoor: "boolean",
+  maxPrice: "number",
+  since: "date",
+} as const;
+
+const climbingQueryString = buildQueryString<
+  FiltersFromSchema<typeof climbingSchema>
+>({
+  query: "C# & .NET",
+  tags: ["outdoors", "fitness"],
+  page: 2,
+  size: 20,
+  sort: { by: "date", direction: "desc" },
+  filters: { indoor: false, maxPrice: 50 },
+});
+
+// climbingQuery.filters?.maxPrice is a number again
+const climbingQuery = parseQueryString(climbingQueryString, climbingSchema);
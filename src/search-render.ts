@@ -0,0 +1,152 @@
+// ! Rendering search results
+
+// `append` and `createResultsTemplate` used to drop `result.url` and `result.title` straight into `innerHTML`. A title
+// like `<img src=x onerror=alert(1)>` would run as code. Everything below escapes by default and only markup we built
+// ourselves is allowed through as is.
+
+// Markup that has already been escaped. Wrapping it in a class lets the `html` tag tell it apart from plain strings.
+class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+const htmlEscapes: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => htmlEscapes[char]);
+}
+
+const safeProtocols = ["http:", "https:", "mailto:"];
+
+// Only let links through that can't run code, i.e. no `javascript:` URLs
+function safeUrl(url: string): string {
+  // Browsers drop tabs and newlines anywhere in a URL, and control characters and spaces around it, before they read
+  // the scheme. "java\tscript:alert(1)" is still a `javascript:` URL, so we clean it up the same way first.
+  const cleaned = url
+    .replace(/[\t\n\r]/g, "")
+    .replace(/^[\x00-\x20]+|[\x00-\x20]+$/g, "");
+
+  // The browser's own parser decides what the scheme is. Relative URLs get the page's.
+  try {
+    const { protocol } = new URL(cleaned, location.href);
+    return safeProtocols.includes(protocol) ? cleaned : "#";
+  } catch {
+    return "#";
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | undefined | null | HtmlValue[];
+
+function toHtml(value: HtmlValue): string {
+  if (value instanceof SafeHtml) {
+    return value.value;
+  }
+
+  // Arrays are joined without the commas `${array}` would give us
+  if (Array.isArray(value)) {
+    return value.map(toHtml).join("");
+  }
+
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  return escapeHtml(String(value));
+}
+
+// A tag for template literals (see Lesson 19) that escapes every value unless it's SafeHtml already
+function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return new SafeHtml(
+    strings.reduce(
+      (markup, str, i) =>
+        markup + str + (i < values.length ? toHtml(values[i]) : ""),
+      ""
+    )
+  );
+}
+
+// ? What does a search result look like? That's up to the caller, but here are the defaults
+
+type ResultTemplate = (result: Result) => SafeHtml;
+
+type ResultsRenderOptions = {
+  itemTemplate?: ResultTemplate;
+  emptyTemplate?: () => SafeHtml;
+  errorTemplate?: (error: SearchError) => SafeHtml;
+};
+
+// Titles and abstracts can carry the backend's highlight markers (see search-highlight.ts)
+const defaultResultTemplate: ResultTemplate = (result) =>
+  html`<a href="${safeUrl(result.url)}">${renderHighlightHTML(result.title)}</a>
+    <p>${renderHighlightHTML(result.abstract)}</p>`;
+
+const defaultEmptyTemplate = () =>
+  html`<p class="search-empty">No results found.</p>`;
+
+const defaultErrorTemplate = (error: SearchError) =>
+  html`<p class="search-error search-error--${error.kind}" role="alert">
+    ${describeSearchError(error)}
+  </p>`;
+
+function renderResultItem(
+  result: Result,
+  itemTemplate: ResultTemplate = defaultResultTemplate
+): SafeHtml {
+  return html`<li>${itemTemplate(result)}</li>`;
+}
+
+function renderResultsHTML(
+  results: Result[],
+  {
+    itemTemplate = defaultResultTemplate,
+    emptyTemplate = defaultEmptyTemplate,
+  }: ResultsRenderOptions = {}
+): SafeHtml {
+  if (!results.length) {
+    return emptyTemplate();
+  }
+
+  return html`<ul class="search-results">
+    ${results.map((result) => renderResultItem(result, itemTemplate))}
+  </ul>`;
+}
+
+function renderErrorHTML(
+  error: unknown,
+  { errorTemplate = defaultErrorTemplate }: ResultsRenderOptions = {}
+): SafeHtml {
+  // Whatever we were handed, the template gets one of the SearchError kinds (search-errors.ts)
+  return errorTemplate(toSearchError(error));
+}
+
+// The DOM flavour. The markup is escaped already, so parsing it with a <template> is safe.
+function toFragment(markup: SafeHtml): DocumentFragment {
+  const template = document.createElement("template");
+  template.innerHTML = markup.value;
+  return template.content;
+}
+
+function renderResults(
+  target: Element,
+  results: Result[],
+  options?: ResultsRenderOptions
+) {
+  target.replaceChildren(toFragment(renderResultsHTML(results, options)));
+}
+
+function renderSearchError(
+  target: Element,
+  error: unknown,
+  options?: ResultsRenderOptions
+) {
+  target.replaceChildren(toFragment(renderErrorHTML(error, options)));
+}
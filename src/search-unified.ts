@@ -0,0 +1,119 @@
+// ! Unified search
+
+// `overloadSearch` and `searchWithOverload` both needed `@ts-ignore` and juggled their arguments by hand. This is the
+// same idea with a single definition: the arguments are a union of tuples, and a conditional type (see chapter 6)
+// picks the return type from whichever tuple was passed.
+
+// A failed search still calls back, with no results and what went wrong (search-errors.ts)
+type SearchCallback = (results: Result[], error?: SearchError) => void;
+
+// Every way the search can be called after the term. The callback can come before or after the tags.
+type UnifiedSearchArgs =
+  | [tags?: string[]]
+  | [tags: string[] | undefined, callback: SearchCallback]
+  | [callback?: SearchCallback, tags?: string[]];
+
+// Called with a callback: void. Otherwise: a Promise.
+type UnifiedSearchReturn<Args extends UnifiedSearchArgs> = Args extends
+  | [SearchCallback, ...unknown[]]
+  | [unknown, SearchCallback]
+  ? void
+  : Promise<Result[]>;
+
+type PageOptions = {
+  // Results per page. Defaults to 20.
+  size?: number;
+  // Defaults to 1
+  firstPage?: number;
+  maxPages?: number;
+  signal?: AbortSignal;
+};
+
+type UnifiedSearch = {
+  <Args extends UnifiedSearchArgs>(
+    term: string,
+    ...args: Args
+  ): UnifiedSearchReturn<Args>;
+  // Same contract as fetchResults2: send `true` through the `yield` door to stop early
+  pages(
+    term: string,
+    tags?: string[],
+    options?: PageOptions
+  ): AsyncGenerator<Result[], void, boolean>;
+};
+
+function isSearchCallback(value: unknown): value is SearchCallback {
+  return typeof value === "function";
+}
+
+function isTagList(value: unknown): value is string[] {
+  return Array.isArray(value);
+}
+
+function createUnifiedSearch(client: SearchClient): UnifiedSearch {
+  function search<Args extends UnifiedSearchArgs>(
+    term: string,
+    ...args: Args
+  ): UnifiedSearchReturn<Args> {
+    const params: Array<string[] | SearchCallback | undefined> = args;
+    const callback = params.find(isSearchCallback);
+    const tags = params.find(isTagList);
+    const results = client.search(term, tags);
+
+    // The conditional type can't be narrowed inside the function, so we tell TypeScript which branch we're in
+    if (callback) {
+      results.then(callback, (error) => callback([], toSearchError(error)));
+      return undefined as UnifiedSearchReturn<Args>;
+    }
+
+    return results as UnifiedSearchReturn<Args>;
+  }
+
+  async function* pages(
+    term: string,
+    tags?: string[],
+    { size = 20, firstPage = 1, maxPages = Infinity, signal }: PageOptions = {}
+  ): AsyncGenerator<Result[], void, boolean> {
+    for (let page = firstPage; page < firstPage + maxPages; page++) {
+      const batch = await client.find(
+        { query: term, tags, page, size },
+        { signal }
+      );
+
+      // An empty page means we've seen everything
+      if (!batch.length) {
+        return;
+      }
+
+      const stop = yield batch;
+
+      // A short page is the last one
+      if (stop === true || batch.length < size) {
+        return;
+      }
+    }
+  }
+
+  return Object.assign(search, { pages });
+}
+
+const unifiedSearch = createUnifiedSearch(searchClient);
+
+// Each call form gets its own return type
+const promisedResults = unifiedSearch("Rock climbing", ["outdoors"]); // Promise<Result[]>
+// A promise nobody handles is an unhandled rejection once the search fails
+promisedResults.catch((error) => {
+  console.warn(describeSearchError(toSearchError(error)));
+});
+const callbackResults = unifiedSearch("Rock climbing", (results, error) => {
+  if (error) {
+    console.warn(describeSearchError(error));
+  } else {
+    console.log(results);
+  }
+}); // void
+const taggedCallbackResults = unifiedSearch(
+  "Rock climbing",
+  ["outdoors"],
+  (results) => console.log(results)
+); // void
@@ -0,0 +1,271 @@
+// ! Validating search responses
+
+// `res.json()` gives us whatever the backend sent. Casting it to `Result[]` only moves the crash to wherever the
+// data is used first, i.e. `append`. These validators narrow `unknown` with type predicates (see Lesson 26) and
+// collect every problem they find on the way.
+
+type ValidationIssue = {
+  // Where the problem is, i.e. "$.results[2].url"
+  path: string;
+  message: string;
+};
+
+class SearchValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(
+      `Invalid search response: ${issues
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join("; ")}`
+    );
+    this.name = "SearchValidationError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown) {
+  if (value === null) {
+    return "null";
+  }
+
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function checkString(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is string {
+  if (typeof value === "string") {
+    return true;
+  }
+
+  issues.push({
+    path,
+    message: `should be a string, got ${describeType(value)}`,
+  });
+  return false;
+}
+
+function checkResult(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is Result {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `should be an object, got ${describeType(value)}`,
+    });
+    return false;
+  }
+
+  // Run every check so all of the broken fields get reported, not just the first one
+  const checks = [
+    checkString(value.title, `${path}.title`, issues),
+    checkString(value.url, `${path}.url`, issues),
+    checkString(value.abstract, `${path}.abstract`, issues),
+  ];
+
+  return checks.every(Boolean);
+}
+
+function checkResults(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is Result[] {
+  if (!Array.isArray(value)) {
+    issues.push({
+      path,
+      message: `should be an array, got ${describeType(value)}`,
+    });
+    return false;
+  }
+
+  return value
+    .map((item, i) => checkResult(item, `${path}[${i}]`, issues))
+    .every(Boolean);
+}
+
+function checkPollingResults(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is PollingResults {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `should be an object, got ${describeType(value)}`,
+    });
+    return false;
+  }
+
+  const results = checkResults(value.results, `${path}.results`, issues);
+
+  if (typeof value.complete !== "boolean") {
+    issues.push({
+      path: `${path}.complete`,
+      message: `should be a boolean, got ${describeType(value.complete)}`,
+    });
+    return false;
+  }
+
+  return results;
+}
+
+// * The type predicates for when we only care about yes or no
+function isResult(value: unknown): value is Result {
+  return checkResult(value, "$", []);
+}
+
+function isPollingResults(value: unknown): value is PollingResults {
+  return checkPollingResults(value, "$", []);
+}
+
+// * And the parsers for when we want to know what's wrong
+function parseResults(value: unknown): Result[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!checkResults(value, "$", issues)) {
+    throw new SearchValidationError(issues);
+  }
+
+  return value;
+}
+
+function parsePollingResults(value: unknown): PollingResults {
+  const issues: ValidationIssue[] = [];
+
+  if (!checkPollingResults(value, "$", issues)) {
+    throw new SearchValidationError(issues);
+  }
+
+  return value;
+}
+
+// ? Facets and suggestions (search-facets.ts) come from the same backend, so they get the same treatment
+
+function checkNumber(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is number {
+  if (typeof value === "number" && !Number.isNaN(value)) {
+    return true;
+  }
+
+  issues.push({
+    path,
+    message: `should be a number, got ${describeType(value)}`,
+  });
+  return false;
+}
+
+type ItemCheck = (
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+) => boolean;
+
+function checkList<T>(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  checkItem: ItemCheck
+): value is T[] {
+  if (!Array.isArray(value)) {
+    issues.push({
+      path,
+      message: `should be an array, got ${describeType(value)}`,
+    });
+    return false;
+  }
+
+  return value
+    .map((item, i) => checkItem(item, `${path}[${i}]`, issues))
+    .every(Boolean);
+}
+
+function checkTagFacet(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is TagFacet {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `should be an object, got ${describeType(value)}`,
+    });
+    return false;
+  }
+
+  return [
+    checkString(value.tag, `${path}.tag`, issues),
+    checkNumber(value.count, `${path}.count`, issues),
+  ].every(Boolean);
+}
+
+function checkSuggestion(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): value is Suggestion {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `should be an object, got ${describeType(value)}`,
+    });
+    return false;
+  }
+
+  const kind = value.kind === "tag" || value.kind === "term";
+
+  if (!kind) {
+    issues.push({
+      path: `${path}.kind`,
+      message: `should be "tag" or "term", got ${JSON.stringify(value.kind)}`,
+    });
+  }
+
+  return [
+    kind,
+    checkString(value.value, `${path}.value`, issues),
+    checkNumber(value.count, `${path}.count`, issues),
+  ].every(Boolean);
+}
+
+function parseFacetedResults(value: unknown): FacetedResults {
+  const issues: ValidationIssue[] = [];
+
+  if (!isRecord(value)) {
+    issues.push({
+      path: "$",
+      message: `should be an object, got ${describeType(value)}`,
+    });
+    throw new SearchValidationError(issues);
+  }
+
+  const valid = [
+    checkResults(value.results, "$.results", issues),
+    checkList(value.facets, "$.facets", issues, checkTagFacet),
+  ].every(Boolean);
+
+  if (!valid) {
+    throw new SearchValidationError(issues);
+  }
+
+  return value as FacetedResults;
+}
+
+function parseSuggestions(value: unknown): Suggestion[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!checkList<Suggestion>(value, "$", issues, checkSuggestion)) {
+    throw new SearchValidationError(issues);
+  }
+
+  return value;
+}